@@ -4,30 +4,80 @@ import {
   Send, Undo2, Redo2, Terminal, Zap, Trash2, RefreshCw, Square,
   Wand2, Link as LinkIcon, StickyNote, ImageIcon, ShieldCheck, 
   Save, FolderOpen, Eraser, Command, MousePointer2, Hand, Focus, Home,
-  Loader2, Download, Code2, Eye, CheckCircle2, XCircle, Layout, ChevronRight, Edit3,
-  Search, Activity, Mic, Paperclip, BarChart3, ChevronDown, ChevronUp, AtSign, Clock
+  Loader2, Download, Code2, Eye, Layout, ChevronRight, Edit3,
+  Search, Activity, Mic, Paperclip, BarChart3, ChevronDown, ChevronUp, AtSign, Clock, FileInput, History, Pin, Wrench, Cpu
 } from 'lucide-react';
-import html2canvas from 'html2canvas';
 import { 
-  AgentRole, CanvasElement, DiagramType, THEMES, Connection, ChatMessage, ThinkingStep, PlanNode
+  AgentRole, CanvasElement, DiagramType, THEMES, Connection, ChatMessage, ThinkingStep, PlanNode, getTheme, DiagramError, CardGeneration
 } from './types';
 import { 
   classifyContentAgent, generateDiagramAgent, modifyDiagramContent, 
   findRelationshipBetweenDiagrams, visionToDiagram, analyzeWorkspace 
 } from './services/geminiService';
-import { calculateHierarchicalLayout } from './services/layoutService';
-import SmartDiagram from './components/SmartDiagram';
+import { AgentError, describeAgentError } from './services/llmProvider';
+import { calculateHierarchicalLayout, runLayoutStrategy, LayoutPosition, LayoutStrategy, StrategyOptions } from './services/layoutService';
+import SmartDiagram, { DiagramNodeHit } from './components/SmartDiagram';
+import NodeActionPopover from './components/NodeActionPopover';
+import SearchPalette from './components/SearchPalette';
+import { SearchHit } from './services/searchIndex';
+import MermaidEditor from './components/MermaidEditor';
+import CodeDiffView from './components/CodeDiffView';
+import ModelSettingsPanel from './components/ModelSettingsPanel';
+import { LLMSettings, getLLMSettings, normalizeSettings, setLLMSettings } from './services/llmProvider';
+import GenerationProgress from './components/GenerationProgress';
+import { renderManager } from './services/renderManager';
+import { buildNodeContext } from './services/contextExcerpt';
+import { flattenCategories, findSelectedAncestor } from './services/planTree';
+import { runWithConcurrency } from './services/taskPool';
+import PlanEditor from './components/PlanEditor';
+import { ensureValidDiagram, describeDiagramError, MAX_REPAIR_ATTEMPTS } from './services/diagramRepair';
+import { MermaidNode, deleteNode, extractNodeLabels, renameNode, resolveClickedNode, syncNodeList } from './services/mermaidNodes';
 import AgentPanel from './components/AgentPanel';
 import CanvasControlHub, { InteractionMode } from './components/CanvasControlHub';
+import ConnectionLayer from './components/ConnectionLayer';
+import { CardSize, Point, CARD_WIDTH, DEFAULT_CARD_HEIGHT, getCardRect, rectsIntersect, unionRect } from './services/geometry';
+import { PlacementOptions, findFreePosition } from './services/placementService';
+import { LOW_DETAIL_SCALE, getRenderPriorities, getVisibleIds, getVisibleWorldRect } from './services/viewportCulling';
+import { GRID_SIZE, SNAP_THRESHOLD, SnapGuide, computeSnap } from './services/snapping';
+import { resolveLinkTargets, resolveTitle } from './services/titleMatcher';
+import { serializeProject, parseProjectArchive, formatArchiveIssues, ArchiveValidationError, DEFAULT_VIEW } from './services/projectArchive';
+import {
+  ProjectRecord, ProjectSummary, SessionSnapshot, listProjects, getProject, saveProject, deleteProject,
+  createProject, renameProject, duplicateProject, getActiveProjectId, setActiveProjectId,
+  readSessionSnapshot, writeSessionSnapshot, clearSessionSnapshot, readModelSettings, writeModelSettings
+} from './services/workspaceStore';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import ExportDialog from './components/ExportDialog';
+import { exportCanvas, ExportOptions } from './services/canvasExporter';
+import { downloadBlob, downloadText } from './services/fileTransfer';
+import { buildDiagramExport, DiagramExportFormat } from './services/diagramExporters';
+import CardExportMenu from './components/CardExportMenu';
+import { parseMermaidDocument, MERMAID_FILE_PATTERN } from './services/mermaidImport';
+import {
+  DocumentState, HistoryState, OperationType, RecordOptions, EntityPatch, EMPTY_HISTORY,
+  diffDocuments, recordOperation, undoOperation, redoOperation, jumpToOperation, trimHistory
+} from './services/historyManager';
+import HistoryPanel from './components/HistoryPanel';
+import RenderMetricsStat from './components/RenderMetricsStat';
+import SelectionToolbar from './components/SelectionToolbar';
+import { AlignMode, DistributeAxis, alignElements, distributeElements } from './services/alignment';
+
+const SESSION_SNAPSHOT_DELAY = 300;
+const AUTOSAVE_DELAY = 1500;
+const LAYOUT_ANIMATION_MS = 600;
+const GENERATION_CONCURRENCY = 3;
+const MAX_GENERATION_ATTEMPTS = 2; // 单张卡片请求失败时的自动重试上限，之后需在卡片上手动重试
 
 const COMMAND_REGISTRY = [
-  { id: 'layout', label: '/layout', desc: '智能层级布局整理', icon: <Wand2 className="w-4 h-4" />, color: 'text-amber-400' },
+  { id: 'layout', label: '/layout', desc: '布局 [lr | tb | grid | radial | force | level]', icon: <Wand2 className="w-4 h-4" />, color: 'text-amber-400' },
   { id: 'link', label: '/link', desc: '连接图表 [标题1] [标题2]', icon: <LinkIcon className="w-4 h-4" />, color: 'text-indigo-400' },
   { id: 'note', label: '/note', desc: '创建随手记卡片', icon: <StickyNote className="w-4 h-4" />, color: 'text-yellow-400' },
   { id: 'vision', label: '/vision', desc: '视觉解构：图片转架构', icon: <ImageIcon className="w-4 h-4" />, color: 'text-pink-400' },
   { id: 'review', label: '/review', desc: '智能架构审计', icon: <ShieldCheck className="w-4 h-4" />, color: 'text-emerald-400' },
   { id: 'save', label: '/save', desc: '导出工程存档 (.json)', icon: <Save className="w-4 h-4" />, color: 'text-sky-400' },
   { id: 'load', label: '/load', desc: '导入工程存档 (.json)', icon: <FolderOpen className="w-4 h-4" />, color: 'text-sky-400' },
+  { id: 'import', label: '/import', desc: '导入 Mermaid / Markdown 文件', icon: <FileInput className="w-4 h-4" />, color: 'text-sky-400' },
+  { id: 'export', label: '/export', desc: '导出文本 md | mmd | drawio', icon: <Download className="w-4 h-4" />, color: 'text-emerald-400' },
   { id: 'clear', label: '/clear', desc: '清空画布数据', icon: <Eraser className="w-4 h-4" />, color: 'text-rose-400' },
 ];
 
@@ -95,9 +145,21 @@ const App: React.FC = () => {
   const [scale, setScale] = useState(0.8);
   const [mode, setMode] = useState<InteractionMode>('select');
   const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // 框选矩形以 main 容器内的屏幕坐标记录；base 为按住 Shift 开始框选时已有的选择
+  const [marquee, setMarquee] = useState<{ start: Point; end: Point; base: string[] } | null>(null);
+  const selectedIdsRef = useRef<string[]>(selectedIds);
+  selectedIdsRef.current = selectedIds;
+  // 拖拽以按下时的指针位置为原点计算位移，便于吸附后仍能跟随指针
+  const dragOriginRef = useRef<{ ids: string[]; pointer: Point } | null>(null);
+  const [showGrid, setShowGrid] = useState(true);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
   const [isSpaceDown, setIsSpaceDown] = useState(false);
   const [highlightedId, setHighlightedId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showSearchPalette, setShowSearchPalette] = useState(false);
+  // 搜索命中图表节点时，在对应卡片的 SVG 中短暂高亮该节点
+  const [searchFocus, setSearchFocus] = useState<{ elementId: string; label: string } | null>(null);
   const [isIndexExpanded, setIsIndexExpanded] = useState(false);
   
   const [showMentionMenu, setShowMentionMenu] = useState(false);
@@ -106,43 +168,137 @@ const App: React.FC = () => {
     const lastAtIdx = userInput.lastIndexOf('@');
     if (lastAtIdx === -1) return [];
     const query = userInput.slice(lastAtIdx + 1).toLowerCase();
-    return elements.filter(el => el.title.toLowerCase().includes(query));
+    // 先列出标题匹配的模块，再列出图表内名称匹配的节点（以 “模块·节点” 形式提及）
+    const cards = elements.filter(el => el.title.toLowerCase().includes(query)).map(el => ({ key: el.id, element: el, node: undefined as string | undefined }));
+    const nodes = query ? elements.flatMap(el => el.deconstructedElements
+      .filter(n => n.toLowerCase().includes(query))
+      .map(n => ({ key: `${el.id}:${n}`, element: el, node: n as string | undefined }))) : [];
+    return [...cards, ...nodes].slice(0, 8);
   }, [userInput, elements]);
 
   const [showSourceMap, setShowSourceMap] = useState<Record<string, boolean>>({});
+  // SmartDiagram 上报的语法错误，驱动卡片内的错误提示、源码高亮与修复按钮
+  const [diagramErrors, setDiagramErrors] = useState<Record<string, DiagramError>>({});
+  // 待确认的 AI 修改：展示差异后由用户采用或放弃，不直接覆盖卡片代码
+  const [pendingEdits, setPendingEdits] = useState<Record<string, { before: string; after: string; instruction: string }>>({});
+  // 图表内被点击选中的节点；node 为 null 表示无法映射回源码（只能提问与下钻）
+  const [selectedNode, setSelectedNode] = useState<{ elementId: string; hit: DiagramNodeHit; node: MermaidNode | null } | null>(null);
+  const [isNodeActionBusy, setIsNodeActionBusy] = useState(false);
+  const handleDiagramNodeClick = useCallback((elementId: string, hit: DiagramNodeHit) => {
+    const el = docRef.current.elements.find(e => e.id === elementId);
+    if (!el) return;
+    setSelectedNode({ elementId, hit, node: resolveClickedNode(el.mermaidCode, hit.domId, hit.label) });
+  }, []);
+  const reportDiagramError = useCallback((id: string, error: DiagramError | null) => {
+    setDiagramErrors(prev => {
+      if (!error) {
+        if (!prev[id]) return prev;
+        const { [id]: _, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [id]: error };
+    });
+  }, []);
+  const [cardSizes, setCardSizes] = useState<Record<string, CardSize>>({});
+  const cardSizesRef = useRef(cardSizes);
+  cardSizesRef.current = cardSizes;
+  const [viewportSize, setViewportSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+  // 导出时临时关闭虚拟化与低细节模式，保证所有卡片都渲染出完整图表
+  const [isRenderingAll, setIsRenderingAll] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [exportSelection, setExportSelection] = useState<string[]>([]);
 
   const globalAbortControllerRef = useRef<AbortController | null>(null);
   const cardAbortControllersRef = useRef<Record<string, AbortController>>({});
+  const drillDownControllerRef = useRef<AbortController | null>(null);
+  // 进行中的 AI 生成：卡片先以占位形式落到画布，流式展示代码与状态，成功后移除；jobs 保留节点与上下文供重试
+  const [generations, setGenerations] = useState<Record<string, CardGeneration>>({});
+  const generationJobsRef = useRef<Record<string, { node: PlanNode; context: string }>>({});
+
+  const [historyState, setHistoryState] = useState<HistoryState>(EMPTY_HISTORY);
+  const [historyLimit, setHistoryLimit] = useState(Infinity);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const [showModelSettings, setShowModelSettings] = useState(false);
+  // 以 ref 持有最新的文档与历史，保证异步流程与同一事件中的连续提交读取到一致的状态
+  const docRef = useRef<DocumentState>({ elements, connections, messages });
+  docRef.current = { elements, connections, messages };
+  const historyRef = useRef<HistoryState>(historyState);
+  historyRef.current = historyState;
+  const historyLimitRef = useRef(historyLimit);
+  historyLimitRef.current = historyLimit;
+  const dragStartElementsRef = useRef<CanvasElement[] | null>(null);
 
-  const [history, setHistory] = useState<{elements: CanvasElement[], connections: Connection[]}[]>([]);
-  const [future, setFuture] = useState<{elements: CanvasElement[], connections: Connection[]}[]>([]);
+  const updateHistory = (next: HistoryState) => {
+    historyRef.current = next;
+    setHistoryState(next);
+  };
 
-  const pushToHistory = useCallback(() => {
-    setHistory(prev => [...prev.slice(-19), { elements: [...elements], connections: [...connections] }]);
-    setFuture([]);
-  }, [elements, connections]);
+  const applyDocument = (doc: DocumentState) => {
+    docRef.current = doc;
+    setElements(doc.elements);
+    setConnections(doc.connections);
+    setMessages(doc.messages);
+  };
+
+  /**
+   * 记录已计算好的补丁（如拖拽结束时对比拖拽前后的位置）
+   */
+  const recordPatches = (type: OperationType, label: string, patches: EntityPatch[], options: RecordOptions = {}) => {
+    updateHistory(recordOperation(historyRef.current, { type, label, patches }, { maxDepth: historyLimitRef.current, ...options }));
+  };
+
+  /**
+   * 以可撤销操作的形式修改文档：recipe 基于当前文档返回需要替换的集合
+   */
+  const commitChange = (
+    type: OperationType, label: string, recipe: (doc: DocumentState) => Partial<DocumentState>, options: RecordOptions = {}
+  ) => {
+    const before = docRef.current;
+    const after = { ...before, ...recipe(before) };
+    const patches = diffDocuments(before, after);
+    if (patches.length === 0) return;
+    applyDocument(after);
+    recordPatches(type, label, patches, options);
+  };
 
   const undo = useCallback(() => {
-    if (history.length === 0) return;
-    const prev = history[history.length - 1];
-    setFuture(f => [{elements, connections}, ...f]);
-    setHistory(h => h.slice(0, -1));
-    setElements(prev.elements);
-    setConnections(prev.connections);
-  }, [history, elements, connections]);
+    if (historyRef.current.past.length === 0) return;
+    const { history, doc } = undoOperation(historyRef.current, docRef.current);
+    applyDocument(doc);
+    updateHistory(history);
+  }, []);
 
   const redo = useCallback(() => {
-    if (future.length === 0) return;
-    const next = future[0];
-    setHistory(h => [...h, {elements, connections}]);
-    setFuture(f => f.slice(1));
-    setElements(next.elements);
-    setConnections(next.connections);
-  }, [future, elements, connections]);
+    if (historyRef.current.future.length === 0) return;
+    const { history, doc } = redoOperation(historyRef.current, docRef.current);
+    applyDocument(doc);
+    updateHistory(history);
+  }, []);
+
+  const jumpToHistory = (pastLength: number) => {
+    const { history, doc } = jumpToOperation(historyRef.current, docRef.current, pastLength);
+    applyDocument(doc);
+    updateHistory(history);
+  };
+
+  const changeHistoryLimit = (limit: number) => {
+    setHistoryLimit(limit);
+    updateHistory(trimHistory(historyRef.current, limit));
+  };
+
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [activeProjectId, setActiveProjectIdState] = useState<string | null>(null);
+  const [pendingRecovery, setPendingRecovery] = useState<SessionSnapshot | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const workspaceInitRef = useRef(false);
 
   const fileRef = useRef<HTMLInputElement>(null);
+  const archiveFileRef = useRef<HTMLInputElement>(null);
+  const importFileRef = useRef<HTMLInputElement>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const mainRef = useRef<HTMLElement>(null);
+  const canvasLayerRef = useRef<HTMLDivElement>(null);
   const chatScrollRef = useRef<HTMLDivElement>(null);
 
   const [showMenu, setShowMenu] = useState(false);
@@ -171,13 +327,272 @@ const App: React.FC = () => {
     }
   }, [messages, isProcessing]);
 
+  // 实测卡片尺寸（不受画布缩放影响），供连线路由使用。每张卡片挂载/卸载时通过回调 ref 增删观察，
+  // 同数量替换（切换工程、载入存档、撤销删除+新增）的卡片也能被测量
+  const cardObserverRef = useRef<ResizeObserver | null>(null);
+  const cardNodesRef = useRef(new Map<string, HTMLElement>());
+  const cardRefCallbacksRef = useRef(new Map<string, (node: HTMLDivElement | null) => void>());
+
+  const getCardObserver = () => {
+    if (!cardObserverRef.current) {
+      cardObserverRef.current = new ResizeObserver(entries => {
+        setCardSizes(prev => {
+          const next = { ...prev };
+          entries.forEach(entry => {
+            const target = entry.target as HTMLElement;
+            const id = target.dataset.cardId;
+            if (id && target.isConnected) next[id] = { width: target.offsetWidth, height: target.offsetHeight };
+          });
+          return next;
+        });
+      });
+    }
+    return cardObserverRef.current;
+  };
+
+  // 按卡片 id 缓存回调 ref，保证引用稳定，避免每次渲染都重新观察
+  const cardRef = (id: string) => {
+    let callback = cardRefCallbacksRef.current.get(id);
+    if (!callback) {
+      callback = (node: HTMLDivElement | null) => {
+        const previous = cardNodesRef.current.get(id);
+        if (previous && previous !== node) {
+          getCardObserver().unobserve(previous);
+          cardNodesRef.current.delete(id);
+        }
+        if (node && previous !== node) {
+          cardNodesRef.current.set(id, node);
+          getCardObserver().observe(node);
+        }
+      };
+      cardRefCallbacksRef.current.set(id, callback);
+    }
+    return callback;
+  };
+
+  useEffect(() => () => cardObserverRef.current?.disconnect(), []);
+
+  // 卡片被移除后清理其尺寸与回调 ref
+  useEffect(() => {
+    const ids = new Set(elements.map(el => el.id));
+    cardRefCallbacksRef.current.forEach((_, id) => { if (!ids.has(id)) cardRefCallbacksRef.current.delete(id); });
+    setCardSizes(prev => {
+      const stale = Object.keys(prev).filter(id => !ids.has(id));
+      if (stale.length === 0) return prev;
+      const next = { ...prev };
+      stale.forEach(id => delete next[id]);
+      return next;
+    });
+  }, [elements]);
+
+  useEffect(() => {
+    if (!mainRef.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(mainRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  const visibleRect = useMemo(() => getVisibleWorldRect(viewportSize, offset, scale), [viewportSize, offset, scale]);
+  const visibleIds = useMemo(() => getVisibleIds(elements, cardSizes, visibleRect), [elements, cardSizes, visibleRect]);
+  const renderPriorities = useMemo(
+    () => getRenderPriorities(elements, cardSizes, visibleRect, visibleIds),
+    [elements, cardSizes, visibleRect, visibleIds]
+  );
+  // 缩得很小时卡片只显示标题；卡片高度沿用实测值，保持连线与布局几何不变
+  const isLowDetail = scale < LOW_DETAIL_SCALE && !isRenderingAll;
+
+  // 拖拽卡片或平移画布时暂停 Mermaid 渲染，把主线程让给交互
+  useEffect(() => {
+    renderManager.setInteracting(draggingId !== null);
+  }, [draggingId]);
+
+  const applyProjectState = (snapshot: Pick<ProjectRecord, 'archive' | 'messages' | 'thinkingSteps'>) => {
+    // 取消卡片级的 AI 任务（修改、修复、重新生成），避免结果写入切换后的工程
+    Object.keys(cardAbortControllersRef.current).forEach(id => cardAbortControllersRef.current[id].abort());
+    cardAbortControllersRef.current = {};
+    drillDownControllerRef.current?.abort();
+    generationJobsRef.current = {};
+    // 旧存档没有节点列表，载入时补齐
+    applyDocument({
+      elements: snapshot.archive.elements.map(el => el.mermaidCode && el.deconstructedElements.length === 0 ? syncNodeList(el) : el),
+      connections: snapshot.archive.connections,
+      messages: snapshot.messages
+    });
+    setOffset(snapshot.archive.view.offset);
+    setScale(snapshot.archive.view.scale);
+    setThinkingSteps(snapshot.thinkingSteps);
+    updateHistory(EMPTY_HISTORY);
+    setSelectedIds([]);
+    setPendingEdits({});
+    setDiagramErrors({});
+    setGenerations({});
+    setSelectedNode(null);
+  };
+
+  const openProject = async (record: ProjectRecord) => {
+    applyProjectState(record);
+    setActiveProjectIdState(record.id);
+    await setActiveProjectId(record.id);
+    setProjects(await listProjects());
+  };
+
+  // 启动时恢复上次打开的工程，并检查是否存在未正常保存的会话
+  useEffect(() => {
+    if (workspaceInitRef.current) return;
+    workspaceInitRef.current = true;
+    (async () => {
+      try {
+        setLLMSettings(normalizeSettings(await readModelSettings()));
+        const storedId = await getActiveProjectId();
+        let record = storedId ? await getProject(storedId) : undefined;
+        if (!record) {
+          const existing = await listProjects();
+          record = existing.length > 0
+            ? await getProject(existing[0].id)
+            : await createProject('未命名工程', serializeProject([], [], DEFAULT_VIEW));
+        }
+        const session = await readSessionSnapshot();
+        if (session && session.projectId === record.id && session.updatedAt > record.updatedAt) {
+          setPendingRecovery(session);
+        }
+        await openProject(record);
+      } catch (err) {
+        addThinkingStep(AgentRole.INTERACTION_FEEDBACK, `本地存储不可用，自动保存已停用：${(err as Error).message}`);
+      }
+    })();
+  }, []);
+
+  const saveModelSettings = async (next: LLMSettings) => {
+    await writeModelSettings(next);
+    setLLMSettings(next);
+    addThinkingStep(AgentRole.INTERACTION_FEEDBACK, '模型设置已更新');
+  };
+
+  const buildProjectSnapshot = () => ({
+    archive: serializeProject(elements, connections, { offset, scale }),
+    messages,
+    thinkingSteps
+  });
+
+  const persistActiveProject = async () => {
+    const meta = projects.find(p => p.id === activeProjectId);
+    if (!meta) return;
+    const updatedAt = Date.now();
+    const record: ProjectRecord = { id: meta.id, name: meta.name, createdAt: meta.createdAt, updatedAt, ...buildProjectSnapshot() };
+    setIsSaving(true);
+    try {
+      await saveProject(record);
+      await clearSessionSnapshot(updatedAt);
+      setProjects(prev => prev.map(p => p.id === meta.id ? { ...p, updatedAt, elementCount: record.archive.elements.length } : p));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 自动保存失败只提示一次，直到再次保存成功；否则提示消息本身会触发下一轮保存并反复报错
+  const autosaveFailedRef = useRef(false);
+  const reportAutosaveError = (err: unknown) => {
+    if (autosaveFailedRef.current) return;
+    autosaveFailedRef.current = true;
+    addMessage('assistant', `自动保存失败：${(err as Error).message}`, AgentRole.INTERACTION_FEEDBACK);
+  };
+
+  // 自动保存：高频写入会话快照用于崩溃恢复，空闲后再写入工程记录。等待用户决定是否恢复时暂停，以免覆盖快照。
+  useEffect(() => {
+    if (!activeProjectId || pendingRecovery) return;
+    const sessionTimer = setTimeout(() => {
+      writeSessionSnapshot({ projectId: activeProjectId, updatedAt: Date.now(), ...buildProjectSnapshot() }).catch(reportAutosaveError);
+    }, SESSION_SNAPSHOT_DELAY);
+    const saveTimer = setTimeout(() => {
+      persistActiveProject().then(() => { autosaveFailedRef.current = false; }, reportAutosaveError);
+    }, AUTOSAVE_DELAY);
+    return () => { clearTimeout(sessionTimer); clearTimeout(saveTimer); };
+  }, [elements, connections, messages, thinkingSteps, offset, scale, activeProjectId, pendingRecovery]);
+
+  // 工作区操作的存储失败（配额不足、数据库被占用等）统一提示，不留下未处理的 Promise 拒绝
+  const runWorkspaceAction = async (label: string, action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      addMessage('assistant', `${label}失败：${(err as Error).message}`, AgentRole.INTERACTION_FEEDBACK);
+    }
+  };
+
+  const switchProject = (id: string) => {
+    if (id === activeProjectId || isProcessing || isNodeActionBusy) return;
+    return runWorkspaceAction('切换工程', async () => {
+      await persistActiveProject();
+      const record = await getProject(id);
+      if (record) await openProject(record);
+    });
+  };
+
+  const createNewProject = () => {
+    if (isProcessing || isNodeActionBusy) return;
+    return runWorkspaceAction('新建工程', async () => {
+      await persistActiveProject();
+      await openProject(await createProject(`未命名工程 ${projects.length + 1}`, serializeProject([], [], DEFAULT_VIEW)));
+    });
+  };
+
+  const renameWorkspaceProject = (id: string, name: string) =>
+    runWorkspaceAction('重命名工程', async () => {
+      if (id === activeProjectId) await persistActiveProject();
+      await renameProject(id, name);
+      setProjects(await listProjects());
+    });
+
+  const duplicateWorkspaceProject = (id: string) => {
+    if (isProcessing || isNodeActionBusy) return;
+    return runWorkspaceAction('复制工程', async () => {
+      await persistActiveProject();
+      await openProject(await duplicateProject(id));
+    });
+  };
+
+  const deleteWorkspaceProject = (id: string) => {
+    const target = projects.find(p => p.id === id);
+    if (!target || projects.length <= 1 || (id === activeProjectId && (isProcessing || isNodeActionBusy))) return;
+    if (!confirm(`确定要删除工程“${target.name}”吗？此操作无法撤销。`)) return;
+    return runWorkspaceAction('删除工程', async () => {
+      await deleteProject(id);
+      if (id === activeProjectId) {
+        const next = projects.find(p => p.id !== id)!;
+        const record = await getProject(next.id);
+        if (record) await openProject(record);
+      } else {
+        setProjects(await listProjects());
+      }
+    });
+  };
+
+  const restoreRecoveredSession = () => {
+    if (!pendingRecovery) return;
+    applyProjectState(pendingRecovery);
+    setPendingRecovery(null);
+    addMessage('assistant', '已恢复上次未保存的会话。', AgentRole.INTERACTION_FEEDBACK);
+  };
+
+  const discardRecoveredSession = () => {
+    setPendingRecovery(null);
+    clearSessionSnapshot().catch(() => {});
+  };
+
   const addThinkingStep = (agent: AgentRole, content: string) => {
     setThinkingSteps(prev => [...prev, { id: crypto.randomUUID(), agent, content, timestamp: Date.now() }]);
   };
 
-  const addMessage = (role: 'user' | 'assistant', content: string, agent?: AgentRole, type: 'text' | 'plan' = 'text', plan?: PlanNode[]) => {
+  const addMessage = (
+    role: 'user' | 'assistant', content: string, agent?: AgentRole, type: 'text' | 'plan' = 'text', plan?: PlanNode[],
+    source?: Pick<ChatMessage, 'sourceInput' | 'hierarchy'>
+  ) => {
     const id = crypto.randomUUID();
-    setMessages(prev => [...prev, { id, role, content, agent, timestamp: Date.now(), type, plan }]);
+    // 消息属于文档状态：同步写入 docRef，避免同一批次内的 commitChange / 撤销用旧的消息列表覆盖新消息
+    const messages = [...docRef.current.messages, { id, role, content, agent, timestamp: Date.now(), type, plan, ...source }];
+    docRef.current = { ...docRef.current, messages };
+    setMessages(messages);
     return id;
   };
 
@@ -199,6 +614,20 @@ const App: React.FC = () => {
     setTimeout(() => setHighlightedId(null), 3000);
   }, [elements]);
 
+  const selectSearchHit = (hit: SearchHit) => {
+    setShowSearchPalette(false);
+    if (hit.elementId) onTeleport(hit.elementId);
+    if (hit.elementId && hit.nodeLabel) {
+      const focus = { elementId: hit.elementId, label: hit.nodeLabel };
+      setSearchFocus(focus);
+      setTimeout(() => setSearchFocus(prev => prev === focus ? null : prev), 3000);
+    }
+    if (hit.messageId) {
+      const node = chatScrollRef.current?.querySelector(`[data-message-id="${hit.messageId}"]`);
+      node?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  };
+
   const onFitView = useCallback(() => {
     if (elements.length === 0) return;
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
@@ -218,6 +647,139 @@ const App: React.FC = () => {
     setScale(newScale); setOffset({ x: newOffsetX, y: newOffsetY });
   }, [elements]);
 
+  /**
+   * 视口中心对应的世界坐标
+   */
+  const viewportCenter = (): Point => {
+    const rect = mainRef.current?.getBoundingClientRect();
+    const width = rect?.width ?? window.innerWidth;
+    const height = rect?.height ?? window.innerHeight;
+    return { x: (width / 2 - offset.x) / scale, y: (height / 2 - offset.y) / scale };
+  };
+
+  /**
+   * 为新卡片寻找空位：默认围绕视口中心，传入 related 时贴近相关卡片
+   */
+  const placeNewCard = (existing: CanvasElement[], options: Partial<PlacementOptions> = {}): Point =>
+    findFreePosition(
+      { width: CARD_WIDTH, height: DEFAULT_CARD_HEIGHT },
+      existing.map(el => getCardRect(el, cardSizesRef.current)),
+      { anchor: viewportCenter(), ...options }
+    );
+
+  const layoutAnimationRef = useRef<number | null>(null);
+
+  /**
+   * 卡片补间移动到新位置，结束时整体记录为一个可撤销的布局操作
+   */
+  const animateToPositions = (positions: LayoutPosition[], label: string) => {
+    if (layoutAnimationRef.current !== null) cancelAnimationFrame(layoutAnimationRef.current);
+    const starts = new Map<string, Point>(docRef.current.elements.map(el => [el.id, { x: el.x, y: el.y }]));
+    const targets = new Map<string, Point>(positions.map(p => [p.id, { x: p.x, y: p.y }]));
+    const startTime = performance.now();
+    const ease = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+    const step = (now: number) => {
+      const t = Math.min(1, (now - startTime) / LAYOUT_ANIMATION_MS);
+      if (t < 1) {
+        const k = ease(t);
+        setElements(prev => prev.map(el => {
+          const from = starts.get(el.id);
+          const to = targets.get(el.id);
+          return from && to ? { ...el, x: from.x + (to.x - from.x) * k, y: from.y + (to.y - from.y) * k } : el;
+        }));
+        layoutAnimationRef.current = requestAnimationFrame(step);
+        return;
+      }
+      layoutAnimationRef.current = null;
+      // 以动画开始前的位置作为 before，避免把中间帧写进历史
+      const current = docRef.current.elements;
+      const withPositions = (source: Map<string, Point>) =>
+        current.map(el => source.has(el.id) ? { ...el, ...source.get(el.id)! } : el);
+      const before = withPositions(starts);
+      const after = withPositions(targets);
+      applyDocument({ ...docRef.current, elements: after });
+      recordPatches('layout', label, diffDocuments({ elements: before }, { elements: after }));
+    };
+    layoutAnimationRef.current = requestAnimationFrame(step);
+  };
+
+  /**
+   * /layout [lr | tb | grid | radial [标题] | force [种子] | level [type]]
+   */
+  const runLayout = (args: string[]) => {
+    if (elements.length === 0) return;
+    const kind = (args[0] || 'lr').toLowerCase();
+    const options: StrategyOptions = { sizes: cardSizes };
+    let strategy: LayoutStrategy;
+    let label: string;
+
+    switch (kind) {
+      case 'lr': case 'tb':
+        strategy = 'hierarchical';
+        options.direction = kind === 'lr' ? 'LR' : 'TB';
+        label = `层级布局（${kind === 'lr' ? '从左到右' : '从上到下'}）`;
+        break;
+      case 'grid':
+        strategy = 'grid'; label = '网格布局';
+        break;
+      case 'radial': {
+        strategy = 'radial';
+        const query = args.slice(1).join(' ');
+        if (query) {
+          const match = resolveTitle(query, elements);
+          if (match.status === 'missing') { addMessage('assistant', `未找到模块「${query}」。`, AgentRole.INTERACTION_FEEDBACK); return; }
+          if (match.status === 'ambiguous') {
+            addMessage('assistant', `「${query}」匹配到多个模块：${match.candidates.map(c => `【${c.title}】`).join('')}，请输入更完整的标题。`, AgentRole.INTERACTION_FEEDBACK);
+            return;
+          }
+          options.centerId = match.element.id;
+        } else if (selectedIds.length === 1) {
+          options.centerId = selectedIds[0];
+        }
+        const center = elements.find(el => el.id === options.centerId);
+        label = center ? `径向布局（以 ${center.title} 为中心）` : '径向布局';
+        break;
+      }
+      case 'force':
+        strategy = 'force';
+        options.seed = Number(args[1]) || 1;
+        label = '力导向布局';
+        break;
+      case 'level':
+        strategy = 'swimlane';
+        options.groupBy = args[1]?.toLowerCase() === 'type' ? 'type' : 'level';
+        label = options.groupBy === 'type' ? '泳道布局（按图表类型）' : '泳道布局（按层级）';
+        break;
+      default:
+        addMessage('assistant', '用法：/layout [lr | tb | grid | radial [模块标题] | force [种子] | level [type]]', AgentRole.INTERACTION_FEEDBACK);
+        return;
+    }
+
+    // 已固定的卡片保持原位，只排列其余卡片
+    const movable = elements.filter(el => !el.pinned);
+    const pinnedCount = elements.length - movable.length;
+    if (movable.length === 0) {
+      addMessage('assistant', '所有卡片均已固定，可在卡片标题栏取消固定后再布局。', AgentRole.INTERACTION_FEEDBACK);
+      return;
+    }
+    const positions = runLayoutStrategy(strategy, movable, connections, options);
+    // 以当前内容的左上角为锚点，避免布局后整体跳离视口
+    let origin: Point = { x: Math.min(...movable.map(el => el.x)), y: Math.min(...movable.map(el => el.y)) };
+    if (pinnedCount > 0) {
+      // 布局结果整体作为一个块，在固定卡片之间寻找不重叠的位置
+      const byId = new Map<string, CanvasElement>(movable.map(el => [el.id, el]));
+      const block = unionRect(positions.map(p => getCardRect({ ...byId.get(p.id)!, x: p.x, y: p.y }, cardSizes)));
+      origin = findFreePosition(
+        { width: block.width, height: block.height },
+        elements.filter(el => el.pinned).map(el => getCardRect(el, cardSizes)),
+        { anchor: { x: origin.x + block.width / 2, y: origin.y + block.height / 2 } }
+      );
+    }
+    animateToPositions(positions.map(p => ({ id: p.id, x: origin.x + p.x, y: origin.y + p.y })), label);
+    addMessage('assistant', `已应用${label}${pinnedCount > 0 ? `，${pinnedCount} 张已固定的卡片保持原位` : ''}。`, AgentRole.SCHEDULER);
+  };
+
   const stopGlobalAI = () => {
     if (globalAbortControllerRef.current) {
       globalAbortControllerRef.current.abort();
@@ -235,44 +797,79 @@ const App: React.FC = () => {
       const cmdId = cmd.slice(1).toLowerCase();
       switch (cmdId) {
         case 'layout':
-          pushToHistory();
-          const pos = calculateHierarchicalLayout(elements, connections);
-          setElements(prev => prev.map(el => {
-            const p = pos.find(p => p.id === el.id);
-            return p ? { ...el, x: p.x, y: p.y } : el;
-          }));
-          addMessage('assistant', '已重排画布布局。', AgentRole.SCHEDULER);
+          runLayout(args);
+          break;
+        case 'link':
+          const linkTargets = resolveLinkTargets(trimmed.slice(cmd.length), elements);
+          if (linkTargets.ok === false) { addMessage('assistant', linkTargets.error, AgentRole.INTERACTION_FEEDBACK); break; }
+          const { from, to } = linkTargets;
+          if (connections.some(c => c.fromId === from.id && c.toId === to.id)) {
+            addMessage('assistant', `【${from.title}】与【${to.title}】之间已存在连接。`, AgentRole.INTERACTION_FEEDBACK);
+            break;
+          }
+          setIsProcessing(true);
+          addThinkingStep(AgentRole.SCHEDULER, `正在分析【${from.title}】→【${to.title}】的关联语义...`);
+          let relation = '关联';
+          try {
+            relation = await findRelationshipBetweenDiagrams(from, to);
+          } catch (err) {
+            addThinkingStep(AgentRole.SCHEDULER, `${describeAgentError(err, '关系推断失败')}，使用默认标签。`);
+          }
+          // 推断期间卡片可能已被删除、撤销或切换工程，提交时按最新文档重新校验
+          let linkSkipped = '';
+          commitChange('link', `连接 ${from.title} → ${to.title}`, doc => {
+            if (!doc.elements.some(el => el.id === from.id) || !doc.elements.some(el => el.id === to.id)) {
+              linkSkipped = `【${from.title}】或【${to.title}】已不在画布上，未创建连接。`;
+              return {};
+            }
+            if (doc.connections.some(c => c.fromId === from.id && c.toId === to.id)) {
+              linkSkipped = `【${from.title}】与【${to.title}】之间已存在连接。`;
+              return {};
+            }
+            return { connections: [...doc.connections, { id: crypto.randomUUID(), fromId: from.id, toId: to.id, label: relation }] };
+          });
+          if (linkSkipped) addMessage('assistant', linkSkipped, AgentRole.INTERACTION_FEEDBACK);
+          else addMessage('assistant', `已连接【${from.title}】→【${to.title}】（${relation}）。`, AgentRole.SCHEDULER);
+          setIsProcessing(false);
           break;
         case 'note':
-          pushToHistory();
           const content = args.join(' ') || '架构备忘录...';
-          const newNote: CanvasElement = {
-            id: crypto.randomUUID(), type: DiagramType.NOTE, mermaidCode: '',
-            x: -offset.x/scale + 200, y: -offset.y/scale + 200, scale: 1,
-            title: '新笔记', level: 0, deconstructedElements: [], themeId: THEMES[0].id, content
-          };
-          setElements(prev => [...prev, newNote]);
-          addMessage('assistant', '已在焦点位置创建笔记。', AgentRole.INTERACTION_FEEDBACK);
+          // 选中单张卡片时笔记贴在它旁边，否则放在视口中心附近的空位
+          const noteTarget = selectedIds.length === 1 ? elements.find(el => el.id === selectedIds[0]) : undefined;
+          commitChange('add', '新建笔记', doc => {
+            const position = placeNewCard(doc.elements, noteTarget ? { related: [getCardRect(noteTarget, cardSizesRef.current)] } : {});
+            return {
+              elements: [...doc.elements, {
+                id: crypto.randomUUID(), type: DiagramType.NOTE, mermaidCode: '',
+                x: position.x, y: position.y, scale: 1,
+                title: '新笔记', level: 0, deconstructedElements: [], themeId: THEMES[0].id, content
+              }]
+            };
+          });
+          addMessage('assistant', noteTarget ? `已在【${noteTarget.title}】旁创建笔记。` : '已在焦点位置创建笔记。', AgentRole.INTERACTION_FEEDBACK);
           break;
         case 'vision': fileRef.current?.click(); break;
         case 'review':
-          setIsProcessing(true);
-          addThinkingStep(AgentRole.REVIEWER, "正在深度扫描当前架构逻辑...");
-          const report = await analyzeWorkspace(elements, "请审计当前架构并给出优化建议。");
-          addMessage('assistant', report, AgentRole.REVIEWER);
-          setIsProcessing(false);
+          await runReview(elements);
           break;
         case 'save':
-          const data = JSON.stringify({ elements, connections, view: { offset, scale } }, null, 2);
-          const blob = new Blob([data], { type: 'application/json' });
-          const url = URL.createObjectURL(blob);
-          const link = document.createElement('a');
-          link.download = `Arch-${Date.now()}.json`;
-          link.href = url; link.click();
+          const data = JSON.stringify(serializeProject(elements, connections, { offset, scale }), null, 2);
+          downloadBlob(new Blob([data], { type: 'application/json' }), `Arch-${Date.now()}.json`);
+          break;
+        case 'load': archiveFileRef.current?.click(); break;
+        case 'import': importFileRef.current?.click(); break;
+        case 'export':
+          const exportFormat = (args[0] || 'md').toLowerCase();
+          if (!['md', 'mmd', 'drawio'].includes(exportFormat)) {
+            addMessage('assistant', '用法：/export md | mmd | drawio', AgentRole.INTERACTION_FEEDBACK);
+            break;
+          }
+          exportDiagramFiles(exportFormat as DiagramExportFormat, elements);
           break;
         case 'clear':
           if (confirm("确定要清空画布吗？")) {
-            pushToHistory(); setElements([]); setConnections([]); setThinkingSteps([]);
+            commitChange('delete', '清空画布', () => ({ elements: [], connections: [] }));
+            setThinkingSteps([]);
           }
           break;
         default: addMessage('assistant', '未知指令。', AgentRole.INTERACTION_FEEDBACK);
@@ -282,6 +879,27 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * 架构审计：targets 为整个画布时执行全局审计，否则只审计选中的模块
+   */
+  const runReview = async (targets: CanvasElement[]) => {
+    if (targets.length === 0) return;
+    const isPartial = targets.length < elements.length;
+    setIsProcessing(true);
+    addThinkingStep(AgentRole.REVIEWER, isPartial ? `正在审计选中的 ${targets.length} 个模块...` : "正在深度扫描当前架构逻辑...");
+    try {
+      const query = isPartial
+        ? `请仅审计以下选定模块：${targets.map(t => `【${t.title}】`).join('、')}，关注它们各自的设计缺陷与相互之间的协作关系，并给出优化建议。`
+        : "请审计当前架构并给出优化建议。";
+      const report = await analyzeWorkspace(targets, query);
+      addMessage('assistant', report, AgentRole.REVIEWER);
+    } catch (err) {
+      addMessage('assistant', describeAgentError(err, '审计失败'), AgentRole.INTERACTION_FEEDBACK);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const startCollaborativeWorkflow = async (input: string) => {
     if (isProcessing) { stopGlobalAI(); return; }
     setIsProcessing(true); setThinkingSteps([]); addMessage('user', input);
@@ -291,37 +909,180 @@ const App: React.FC = () => {
       addThinkingStep(AgentRole.CLASSIFIER, "架构解构与分类中...");
       const rawPlan = await classifyContentAgent(input);
       if (controller.signal.aborted) return;
-      const planNodes: PlanNode[] = rawPlan.nodes.map(n => ({ ...n, id: crypto.randomUUID(), selected: true }));
-      addMessage('assistant', "已为您规划以下架构模块，请确认或修改：", AgentRole.CLASSIFIER, 'plan', planNodes);
+      const planNodes = flattenCategories(rawPlan.nodes || []);
+      addMessage('assistant', "已为您规划以下架构模块，请确认或修改：", AgentRole.CLASSIFIER, 'plan', planNodes, { sourceInput: input, hierarchy: rawPlan.hierarchy || [] });
     } catch (err) {
-      if (!controller.signal.aborted) addMessage('assistant', "规划失败。", AgentRole.INTERACTION_FEEDBACK);
+      if (!controller.signal.aborted) addMessage('assistant', `规划失败：${describeAgentError(err, '请求失败')}`, AgentRole.INTERACTION_FEEDBACK);
     } finally { setIsProcessing(false); globalAbortControllerRef.current = null; }
   };
 
-  const executeGeneration = async (plan: PlanNode[], originalInput: string) => {
-    setIsProcessing(true); pushToHistory();
+  /**
+   * 按用户指定的层级规则重新规划，替换原规划消息中的方案（可撤销）
+   */
+  const replanMessage = async (msg: ChatMessage, customHierarchy: string) => {
+    if (isProcessing || !msg.sourceInput) return;
+    setIsProcessing(true);
     const controller = new AbortController();
     globalAbortControllerRef.current = controller;
-    const selectedNodes = plan.filter(p => p.selected);
-    addThinkingStep(AgentRole.GENERATOR, `并行生成 ${selectedNodes.length} 个核心组件...`);
     try {
-      for (const node of selectedNodes) {
-        if (controller.signal.aborted) break;
-        addThinkingStep(AgentRole.GENERATOR, `正在绘制：${node.title}...`);
-        const code = await generateDiagramAgent(node, originalInput);
-        setElements(prev => [...prev, {
-          id: node.id, type: node.suggestedType, mermaidCode: code,
-          x: 100 + (node.level - 1) * 600, y: 100 + prev.length * 400,
-          scale: 1, title: node.title, level: node.level, deconstructedElements: [], themeId: THEMES[0].id
-        }]);
-      }
-      if (!controller.signal.aborted) {
-        addMessage('assistant', `架构部署完成！您可以点击上方气泡整理布局，或点击正文中的模块名飞跃对焦。`, AgentRole.SCHEDULER);
-        onFitView();
-      }
+      addThinkingStep(AgentRole.CLASSIFIER, customHierarchy ? `按层级规则「${customHierarchy}」重新规划...` : "按语义重新规划层级...");
+      const rawPlan = await classifyContentAgent(msg.sourceInput, customHierarchy || undefined);
+      if (controller.signal.aborted) return;
+      const plan = flattenCategories(rawPlan.nodes || []);
+      commitChange('plan', '按层级规则重新规划', doc => ({
+        messages: doc.messages.map(m => m.id === msg.id ? { ...m, plan, hierarchy: rawPlan.hierarchy || [], customHierarchy } : m)
+      }));
+    } catch (err) {
+      if (!controller.signal.aborted) addMessage('assistant', `重新规划失败：${describeAgentError(err, '请求失败')}`, AgentRole.INTERACTION_FEEDBACK);
     } finally { setIsProcessing(false); globalAbortControllerRef.current = null; }
   };
 
+  const updateGeneration = (id: string, patch: Partial<CardGeneration> | null) => setGenerations(prev => {
+    if (!patch) {
+      if (!prev[id]) return prev;
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    }
+    return { ...prev, [id]: { status: 'queued', partialCode: '', attempt: 0, ...prev[id], ...patch } };
+  });
+
+  /**
+   * 流式生成单张卡片的代码：失败时自动重试，返回校验（必要时修复）后的代码；失败或取消时返回 null 并保留状态供重试。
+   * 每张卡片有独立的 AbortController（卡片内可单独停止），同时跟随批次的 signal 一并取消
+   */
+  const streamCardCode = async (id: string, batchSignal?: AbortSignal): Promise<string | null> => {
+    const job = generationJobsRef.current[id];
+    if (!job) return null;
+    const { node, context } = job;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    batchSignal?.addEventListener('abort', abort);
+    if (batchSignal?.aborted) controller.abort();
+    cardAbortControllersRef.current[id] = controller;
+    try {
+      let lastError = '';
+      for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS && !controller.signal.aborted; attempt++) {
+        updateGeneration(id, { status: 'streaming', partialCode: '', attempt, error: attempt > 1 ? lastError : undefined });
+        try {
+          const rawCode = await generateDiagramAgent(node, context, {
+            signal: controller.signal,
+            onChunk: (partialCode) => updateGeneration(id, { partialCode })
+          });
+          updateGeneration(id, { status: 'validating' });
+          const { code, error } = await ensureValidDiagram(rawCode, {
+            signal: controller.signal,
+            onAttempt: (n, err) => addThinkingStep(AgentRole.GENERATOR, `${node.title} 语法校验失败（${describeDiagramError(err)}），第 ${n} 次自动修复...`)
+          });
+          if (controller.signal.aborted) break;
+          if (error) addThinkingStep(AgentRole.GENERATOR, `${node.title} 经 ${MAX_REPAIR_ATTEMPTS} 次修复仍无法解析，请在卡片中手动修复`);
+          return code;
+        } catch (err) {
+          if (controller.signal.aborted) break;
+          lastError = describeAgentError(err, '请求失败');
+          // 配置缺失或输出已在智能体内部重试过，再次请求无济于事
+          if (err instanceof AgentError && err.kind !== 'request') break;
+        }
+      }
+      updateGeneration(id, controller.signal.aborted ? { status: 'cancelled' } : { status: 'failed', error: lastError });
+      return null;
+    } finally {
+      batchSignal?.removeEventListener('abort', abort);
+      if (cardAbortControllersRef.current[id] === controller) delete cardAbortControllersRef.current[id];
+    }
+  };
+
+  const applyGeneratedCode = (id: string, code: string, type: OperationType, label: string, options: RecordOptions = {}) => {
+    commitChange(type, label, doc => ({
+      elements: doc.elements.map(el => el.id === id ? syncNodeList({ ...el, mermaidCode: code }) : el)
+    }), options);
+    updateGeneration(id, null);
+  };
+
+  const executeGeneration = async (plan: PlanNode[], originalInput: string, hierarchy: string[] = []) => {
+    const selectedNodes = plan.filter(p => p.selected);
+    if (selectedNodes.length === 0) return;
+    setIsProcessing(true);
+    const controller = new AbortController();
+    const runKey = `generate:${crypto.randomUUID()}`;
+    const label = `生成 ${selectedNodes.length} 个模块`;
+    globalAbortControllerRef.current = controller;
+    const minLevel = Math.min(...plan.map(p => p.level));
+    // 每次确认都使用新的卡片 id，同一方案可以重复生成
+    const cardIds = new Map<string, string>(selectedNodes.map(node => [node.id, crypto.randomUUID()]));
+    selectedNodes.forEach(node => {
+      generationJobsRef.current[cardIds.get(node.id)!] = { node, context: buildNodeContext(originalInput, node, hierarchy, node.level - minLevel) };
+    });
+    setGenerations(prev => ({
+      ...prev,
+      ...Object.fromEntries(selectedNodes.map(node => [cardIds.get(node.id)!, { status: 'queued', partialCode: '', attempt: 0 } as CardGeneration]))
+    }));
+
+    // 先按规划树放置全部占位卡片与父子连线，生成完成的先后不影响布局；同一批次合并为一个可撤销步骤
+    commitChange('add', label, doc => {
+      let nextElements = doc.elements;
+      const nextConnections = [...doc.connections];
+      // 本批次中每个父模块最近放置的子卡片，用于让子模块贴着父模块、同级模块依次排列
+      const lastChildOf = new Map<string, string>();
+      const rectOf = (id: string) => nextElements.filter(el => el.id === id).map(el => getCardRect(el, cardSizesRef.current));
+      selectedNodes.forEach(node => {
+        const id = cardIds.get(node.id)!;
+        // 未选中的中间层级被跳过，子模块挂到最近的已选祖先下
+        const ancestor = findSelectedAncestor(plan, node);
+        const parentId = ancestor ? cardIds.get(ancestor.id) : undefined;
+        const previousSibling = lastChildOf.get(parentId ?? '');
+        const position = placeNewCard(nextElements, previousSibling
+          ? { related: rectOf(previousSibling), directions: ['below', 'right'] }
+          : parentId ? { related: rectOf(parentId), directions: ['right', 'below'] } : {});
+        nextElements = [...nextElements, {
+          id, type: node.suggestedType, mermaidCode: '', x: position.x, y: position.y,
+          scale: 1, title: node.title, level: node.level, deconstructedElements: [], themeId: THEMES[0].id
+        }];
+        // 规划树的父子关系映射为画布连线
+        if (parentId) nextConnections.push({ id: crypto.randomUUID(), fromId: parentId, toId: id, label: '包含' });
+        lastChildOf.set(parentId ?? '', id);
+      });
+      return { elements: nextElements, connections: nextConnections };
+    }, { coalesceKey: runKey, coalesceWindowMs: Infinity });
+
+    addThinkingStep(AgentRole.GENERATOR, `以 ${Math.min(GENERATION_CONCURRENCY, selectedNodes.length)} 路并发生成 ${selectedNodes.length} 个核心组件...`);
+    let completed = 0;
+    try {
+      await runWithConcurrency(selectedNodes, GENERATION_CONCURRENCY, async (node) => {
+        const id = cardIds.get(node.id)!;
+        const code = await streamCardCode(id, controller.signal);
+        if (code === null) return;
+        applyGeneratedCode(id, code, 'add', label, { coalesceKey: runKey, coalesceWindowMs: Infinity });
+        completed++;
+        addThinkingStep(AgentRole.GENERATOR, `已完成：${node.title}（${completed}/${selectedNodes.length}）`);
+      }, controller.signal);
+    } finally {
+      // 中止后尚未开始的卡片标记为已取消，可在卡片上单独重试
+      setGenerations(prev => {
+        const next = { ...prev };
+        cardIds.forEach(id => { if (next[id]?.status === 'queued') next[id] = { ...next[id], status: 'cancelled' }; });
+        return next;
+      });
+      setIsProcessing(false);
+      if (globalAbortControllerRef.current === controller) globalAbortControllerRef.current = null;
+    }
+    if (controller.signal.aborted) return;
+    const failed = selectedNodes.length - completed;
+    addMessage('assistant', failed > 0
+      ? `已完成 ${completed}/${selectedNodes.length} 个模块，${failed} 个模块生成失败或被停止，可在对应卡片上点击“重试”。`
+      : `架构部署完成！您可以点击上方气泡整理布局，或点击正文中的模块名飞跃对焦。`, AgentRole.SCHEDULER);
+    onFitView();
+  };
+
+  /**
+   * 卡片内的「重试」：用原有的规划节点与上下文重新生成单张卡片
+   */
+  const retryCardGeneration = async (id: string) => {
+    const job = generationJobsRef.current[id];
+    if (!job) return;
+    const code = await streamCardCode(id);
+    if (code !== null) applyGeneratedCode(id, code, 'edit', `重新生成：${job.node.title}`);
+  };
+
   const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]; if (!file) return;
     setIsProcessing(true);
@@ -330,27 +1091,284 @@ const App: React.FC = () => {
       const base64 = (re.target?.result as string).split(',')[1];
       try {
         const diag = await visionToDiagram(base64);
-        pushToHistory();
-        setElements(prev => [...prev, {
-          id: crypto.randomUUID(), type: diag.suggestedType as DiagramType,
-          mermaidCode: diag.mermaidCode, x: -offset.x/scale+200, y: -offset.y/scale+200,
-          scale: 1, title: diag.title, level: 1, deconstructedElements: [], themeId: THEMES[0].id
-        }]);
+        commitChange('add', `视觉解构：${diag.title}`, doc => {
+          const position = placeNewCard(doc.elements);
+          return {
+            elements: [...doc.elements, {
+              id: crypto.randomUUID(), type: diag.suggestedType,
+              mermaidCode: diag.mermaidCode, x: position.x, y: position.y,
+              scale: 1, title: diag.title, level: 1, deconstructedElements: extractNodeLabels(diag.mermaidCode), themeId: THEMES[0].id
+            }]
+          };
+        });
+      } catch (err) {
+        addMessage('assistant', describeAgentError(err, '视觉解构失败'), AgentRole.INTERACTION_FEEDBACK);
       } finally { setIsProcessing(false); }
     };
     reader.readAsDataURL(file);
   };
 
+  const onArchiveFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { archive, issues, migratedFrom } = parseProjectArchive(await file.text());
+      commitChange('import', `载入存档 ${file.name}`, () => ({ elements: archive.elements, connections: archive.connections }));
+      setOffset(archive.view.offset);
+      setScale(archive.view.scale);
+      const summary = `已载入存档【${file.name}】：${archive.elements.length} 个模块，${archive.connections.length} 条连线。`;
+      const migration = migratedFrom < archive.version ? `\n存档已从 v${migratedFrom} 迁移至 v${archive.version}。` : '';
+      const report = issues.length > 0 ? `\n发现 ${issues.length} 处问题：\n${formatArchiveIssues(issues)}` : '';
+      addMessage('assistant', summary + migration + report, AgentRole.INTERACTION_FEEDBACK);
+    } catch (err) {
+      const detail = err instanceof ArchiveValidationError && err.issues.length > 0 ? `\n${formatArchiveIssues(err.issues)}` : '';
+      addMessage('assistant', `存档载入失败：${(err as Error).message}${detail}`, AgentRole.INTERACTION_FEEDBACK);
+    }
+  };
+
+  // 导入需等待读取文件，提交时按最新视口放置
+  const viewRef = useRef({ offset, scale });
+  viewRef.current = { offset, scale };
+
+  const importDiagramFiles = async (files: File[]) => {
+    try {
+      const supported = files.filter(f => MERMAID_FILE_PATTERN.test(f.name));
+      const skipped = files.length - supported.length;
+      // 单个文件读取失败（拖入的文件夹、读取前已被删除等）不影响其他文件
+      const results = await Promise.allSettled(supported.map(async f => parseMermaidDocument(await f.text(), f.name)));
+      const failed = supported.filter((_, i) => results[i].status === 'rejected').map(f => f.name);
+      const parsed = results.flatMap(r => r.status === 'fulfilled' ? r.value : []);
+      const failedNote = failed.length > 0 ? `${failed.length} 个文件读取失败：${failed.join('、')}` : '';
+      if (parsed.length === 0) {
+        const notes = [skipped > 0 ? `已忽略 ${skipped} 个不支持的文件` : '', failedNote].filter(Boolean).join('；');
+        addMessage('assistant', `未在文件中找到 Mermaid 图表${notes ? `（${notes}）` : ''}。`, AgentRole.INTERACTION_FEEDBACK);
+        return;
+      }
+
+      const imported: CanvasElement[] = parsed.map(d => ({
+        id: crypto.randomUUID(), type: d.type, mermaidCode: d.mermaidCode, x: 0, y: 0, scale: 1,
+        title: d.title, level: d.level, deconstructedElements: extractNodeLabels(d.mermaidCode), themeId: THEMES[0].id
+      }));
+
+      // 新卡片自身按层级布局后整体平移：已有内容时放在其右侧，否则放在当前视口内
+      const positions = calculateHierarchicalLayout(imported, []);
+      const minX = Math.min(...positions.map(p => p.x));
+      const minY = Math.min(...positions.map(p => p.y));
+      commitChange('import', `导入 ${imported.length} 张图表`, doc => {
+        const { offset: view, scale: zoom } = viewRef.current;
+        const originX = doc.elements.length > 0
+          ? Math.max(...doc.elements.map(el => el.x + (cardSizesRef.current[el.id]?.width || 550))) + 200
+          : -view.x / zoom + 200;
+        const originY = doc.elements.length > 0 ? Math.min(...doc.elements.map(el => el.y)) : -view.y / zoom + 200;
+        const placed = imported.map(el => {
+          const p = positions.find(pos => pos.id === el.id)!;
+          return { ...el, x: originX + p.x - minX, y: originY + p.y - minY };
+        });
+        return { elements: [...doc.elements, ...placed] };
+      });
+      const unrecognized = parsed.filter(d => !d.recognizedType).length;
+      const notes = [
+        skipped > 0 ? `忽略 ${skipped} 个不支持的文件` : '',
+        failedNote,
+        unrecognized > 0 ? `${unrecognized} 个图表类型未识别，已按流程图卡片导入` : ''
+      ].filter(Boolean).join('；');
+      addMessage('assistant', `已从 ${supported.length - failed.length} 个文件导入 ${imported.length} 张图表：${imported.map(el => `【${el.title}】`).join('')}${notes ? `\n${notes}。` : ''}`, AgentRole.INTERACTION_FEEDBACK);
+    } catch (err) {
+      addMessage('assistant', `导入图表失败：${(err as Error).message}`, AgentRole.INTERACTION_FEEDBACK);
+    }
+  };
+
+  const exportDiagramFiles = (format: DiagramExportFormat, targets: CanvasElement[]) => {
+    const name = targets.length === 1 ? targets[0].title : (projects.find(p => p.id === activeProjectId)?.name || 'Architecture');
+    const files = buildDiagramExport(format, targets, connections, cardSizes, name);
+    if (files.length === 0) {
+      addMessage('assistant', '没有可导出的图表内容。', AgentRole.INTERACTION_FEEDBACK);
+      return;
+    }
+    // 逐个触发下载，避免浏览器合并或拦截同一时刻的多个下载
+    files.forEach((file, i) => setTimeout(() => downloadText(file.content, file.filename, file.mimeType), i * 250));
+    addMessage('assistant', `已导出 ${files.length} 个文件：${files.map(f => f.filename).join('、')}`, AgentRole.INTERACTION_FEEDBACK);
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    if (!mainRef.current || !canvasLayerRef.current) return;
+    setIsRenderingAll(true);
+    try {
+      // 预先渲染所有图表进入缓存，再等待两帧让休眠中的卡片挂载 SVG
+      await Promise.allSettled(elements
+        .filter(el => el.type !== DiagramType.NOTE && el.mermaidCode)
+        .map(el => renderManager.render(el.id, el.mermaidCode, getTheme(el.themeId).mermaidVars, { priority: renderPriorities[el.id] })));
+      await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+      const { blob, filename } = await exportCanvas(options, {
+        viewportEl: mainRef.current, layerEl: canvasLayerRef.current,
+        elements, connections, sizes: cardSizes, offset, scale
+      });
+      downloadBlob(blob, filename);
+      addMessage('assistant', `已导出 ${options.format.toUpperCase()}：${filename}`, AgentRole.INTERACTION_FEEDBACK);
+    } finally {
+      setIsRenderingAll(false);
+    }
+  };
+
   const updateCardCode = async (el: CanvasElement) => {
     if (el.isLocalUpdating) { stopCardAI(el.id); return; }
     if (!el.localChatInput?.trim()) return;
+    const controller = new AbortController();
+    cardAbortControllersRef.current[el.id] = controller;
     setElements(prev => prev.map(i => i.id === el.id ? { ...i, isLocalUpdating: true } : i));
     try {
-      const newCode = await modifyDiagramContent(el.mermaidCode, el.localChatInput);
-      pushToHistory();
-      setElements(prev => prev.map(i => i.id === el.id ? { ...i, mermaidCode: newCode, localChatInput: '', isLocalUpdating: false } : i));
-    } catch (e) {
+      const rawCode = await modifyDiagramContent(el.mermaidCode, el.localChatInput, controller.signal);
+      const { code, error } = await ensureValidDiagram(rawCode, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      if (error) {
+        // 修复失败时保留原图表，不让无法解析的代码静默落到画布上
+        addMessage('assistant', `「${el.title}」的 AI 修改结果经 ${MAX_REPAIR_ATTEMPTS} 次修复仍无法解析（${describeDiagramError(error)}），已保留原图表。`, AgentRole.GENERATOR);
+        setElements(prev => prev.map(i => i.id === el.id ? { ...i, isLocalUpdating: false } : i));
+        return;
+      }
+      setPendingEdits(prev => ({ ...prev, [el.id]: { before: el.mermaidCode, after: code, instruction: el.localChatInput || '' } }));
+      setElements(prev => prev.map(i => i.id === el.id ? { ...i, localChatInput: '', isLocalUpdating: false } : i));
+    } catch (err) {
       setElements(prev => prev.map(i => i.id === el.id ? { ...i, isLocalUpdating: false } : i));
+      if (!controller.signal.aborted) addMessage('assistant', `「${el.title}」${describeAgentError(err, 'AI 修改失败')}`, AgentRole.INTERACTION_FEEDBACK);
+    } finally {
+      delete cardAbortControllersRef.current[el.id];
+    }
+  };
+
+  const resolvePendingEdit = (el: CanvasElement, accept: boolean) => {
+    const pending = pendingEdits[el.id];
+    if (!pending) return;
+    setPendingEdits(prev => {
+      const { [el.id]: _, ...rest } = prev;
+      return rest;
+    });
+    if (accept) {
+      commitChange('edit', `AI 修改：${el.title}`, doc => ({
+        elements: doc.elements.map(i => i.id === el.id ? syncNodeList({ ...i, mermaidCode: pending.after }) : i)
+      }));
+    }
+  };
+
+  // 源码编辑器的防抖提交；同一卡片的连续编辑合并为一步历史
+  const editCardCode = (el: CanvasElement, code: string) => {
+    commitChange('edit', `编辑源码：${el.title}`, doc => ({
+      elements: doc.elements.map(i => i.id === el.id ? syncNodeList({ ...i, mermaidCode: code }) : i)
+    }), { coalesceKey: `code:${el.id}` });
+  };
+
+  /**
+   * 节点级操作：重命名/删除只改动节点相关的源码行，结果先经语法校验再写入
+   */
+  const applyNodeEdit = async (el: CanvasElement, code: string, label: string) => {
+    const parsed = await renderManager.validate(code);
+    if (parsed.ok === false) {
+      addMessage('assistant', `「${label}」修改后代码无法解析（${describeDiagramError(parsed)}），已取消。`, AgentRole.INTERACTION_FEEDBACK);
+      return;
+    }
+    commitChange('edit', label, doc => ({
+      elements: doc.elements.map(i => i.id === el.id ? syncNodeList({ ...i, mermaidCode: code }) : i)
+    }));
+    setSelectedNode(null);
+  };
+
+  const renameSelectedNode = (el: CanvasElement, node: MermaidNode, newLabel: string) =>
+    applyNodeEdit(el, renameNode(el.mermaidCode, node, newLabel), `重命名节点：${node.label} → ${newLabel}`);
+
+  const deleteSelectedNode = (el: CanvasElement, node: MermaidNode) =>
+    applyNodeEdit(el, deleteNode(el.mermaidCode, node), `删除节点：${node.label}`);
+
+  const askAboutNode = async (el: CanvasElement, label: string, question: string) => {
+    addMessage('user', `@${el.title}·${label} ${question}`);
+    setIsNodeActionBusy(true);
+    try {
+      const answer = await analyzeWorkspace([el], `请聚焦图表【${el.title}】中的节点「${label}」回答：${question}`);
+      addMessage('assistant', answer, AgentRole.REVIEWER);
+    } catch (err) {
+      addMessage('assistant', describeAgentError(err, '提问失败'), AgentRole.INTERACTION_FEEDBACK);
+    } finally {
+      setIsNodeActionBusy(false);
+    }
+  };
+
+  /**
+   * 下钻：为节点生成一张细化子图，放在父卡片右侧并以连线关联
+   */
+  const drillDownNode = async (el: CanvasElement, label: string) => {
+    const controller = new AbortController();
+    drillDownControllerRef.current = controller;
+    setIsNodeActionBusy(true);
+    addThinkingStep(AgentRole.GENERATOR, `正在下钻：${label}...`);
+    try {
+      const rawCode = await generateDiagramAgent(
+        { title: label, level: el.level + 1, description: `细化【${el.title}】中「${label}」节点的内部结构与处理流程`, suggestedType: DiagramType.FLOWCHART },
+        el.mermaidCode,
+        { signal: controller.signal }
+      );
+      const { code, error } = await ensureValidDiagram(rawCode, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      if (error) addThinkingStep(AgentRole.GENERATOR, `${label} 子图经 ${MAX_REPAIR_ATTEMPTS} 次修复仍无法解析，请在卡片中手动修复`);
+      const childId = crypto.randomUUID();
+      commitChange('add', `下钻：${label}`, doc => {
+        // 等待期间父卡片可能已被删除
+        if (!doc.elements.some(e => e.id === el.id)) return {};
+        const position = placeNewCard(doc.elements, {
+          related: doc.elements.filter(e => e.id === el.id).map(e => getCardRect(e, cardSizesRef.current)),
+          directions: ['right', 'below']
+        });
+        return {
+          elements: [...doc.elements, {
+            id: childId, type: DiagramType.FLOWCHART, mermaidCode: code, x: position.x, y: position.y,
+            scale: 1, title: label, level: el.level + 1, deconstructedElements: extractNodeLabels(code), themeId: el.themeId
+          }],
+          connections: [...doc.connections, { id: crypto.randomUUID(), fromId: el.id, toId: childId, label }]
+        };
+      });
+      setSelectedNode(null);
+    } catch (err) {
+      if (!controller.signal.aborted) addMessage('assistant', describeAgentError(err, '下钻失败'), AgentRole.INTERACTION_FEEDBACK);
+    } finally {
+      if (drillDownControllerRef.current === controller) {
+        drillDownControllerRef.current = null;
+        setIsNodeActionBusy(false);
+      }
+    }
+  };
+
+  const stopDrillDown = () => {
+    if (!drillDownControllerRef.current) return;
+    drillDownControllerRef.current.abort();
+    drillDownControllerRef.current = null;
+    setIsNodeActionBusy(false);
+    addThinkingStep(AgentRole.GENERATOR, '已停止下钻。');
+  };
+
+  /**
+   * 卡片内的「修复」：把当前代码与解析错误交给 AI，循环修正直到可以解析
+   */
+  const repairCard = async (el: CanvasElement) => {
+    if (el.isLocalUpdating) return;
+    const controller = new AbortController();
+    cardAbortControllersRef.current[el.id] = controller;
+    setElements(prev => prev.map(i => i.id === el.id ? { ...i, isLocalUpdating: true } : i));
+    try {
+      const { code, error, attempts } = await ensureValidDiagram(el.mermaidCode, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      if (attempts > 0) {
+        commitChange('edit', `AI 修复：${el.title}`, doc => ({
+          elements: doc.elements.map(i => i.id === el.id ? syncNodeList({ ...i, mermaidCode: code, isLocalUpdating: false }) : i)
+        }));
+      } else {
+        setElements(prev => prev.map(i => i.id === el.id ? { ...i, isLocalUpdating: false } : i));
+      }
+      reportDiagramError(el.id, error);
+      if (error) addMessage('assistant', `「${el.title}」经 ${attempts} 次修复仍无法解析（${describeDiagramError(error)}），请查看源码手动调整。`, AgentRole.GENERATOR);
+    } catch (err) {
+      setElements(prev => prev.map(i => i.id === el.id ? { ...i, isLocalUpdating: false } : i));
+      if (!controller.signal.aborted) addMessage('assistant', `「${el.title}」${describeAgentError(err, 'AI 修复失败')}`, AgentRole.INTERACTION_FEEDBACK);
+    } finally {
+      delete cardAbortControllersRef.current[el.id];
     }
   };
 
@@ -359,6 +1377,79 @@ const App: React.FC = () => {
     setElements(prev => prev.map(i => i.id === id ? { ...i, isLocalUpdating: false } : i));
   };
 
+  const startCardDrag = (e: React.MouseEvent, el: CanvasElement) => {
+    e.stopPropagation();
+    if (e.shiftKey) { toggleSelected(el.id); return; }
+    // 拖拽已选中的卡片时整组移动，否则单选当前卡片
+    const group = selectedIds.includes(el.id) ? selectedIds : [el.id];
+    if (!selectedIds.includes(el.id)) setSelectedIds([el.id]);
+    dragOriginRef.current = { ids: group, pointer: { x: e.clientX, y: e.clientY } };
+    dragStartElementsRef.current = elements;
+    setDraggingId(el.id);
+  };
+
+  const selectedElements = useMemo(
+    () => elements.filter(el => selectedIds.includes(el.id)),
+    [elements, selectedIds]
+  );
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+
+  const deleteElements = (ids: string[]) => {
+    const targets = docRef.current.elements.filter(el => ids.includes(el.id));
+    if (targets.length === 0) return;
+    ids.forEach(id => cardAbortControllersRef.current[id]?.abort());
+    commitChange('delete', targets.length > 1 ? `删除 ${targets.length} 个模块` : `移除：${targets[0].title}`, doc => ({
+      elements: doc.elements.filter(el => !ids.includes(el.id)),
+      connections: doc.connections.filter(c => !ids.includes(c.fromId) && !ids.includes(c.toId))
+    }));
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  const moveElements = (moves: Record<string, Point>, label: string) => {
+    commitChange('move', label, doc => ({
+      elements: doc.elements.map(el => moves[el.id] ? { ...el, ...moves[el.id] } : el)
+    }));
+  };
+
+  const alignSelection = (alignMode: AlignMode) =>
+    moveElements(alignElements(selectedElements, cardSizes, alignMode), `对齐 ${selectedElements.length} 个模块`);
+
+  const distributeSelection = (axis: DistributeAxis) =>
+    moveElements(distributeElements(selectedElements, cardSizes, axis), `等距分布 ${selectedElements.length} 个模块`);
+
+  const applyThemeToSelection = (themeId: string) => {
+    commitChange('theme', `应用主题「${getTheme(themeId).name}」`, doc => ({
+      elements: doc.elements.map(el => selectedIds.includes(el.id) ? { ...el, themeId } : el)
+    }));
+  };
+
+  const openExportDialog = () => {
+    setExportSelection(selectedIds);
+    setShowExportDialog(true);
+  };
+
+  /**
+   * 将框选矩形换算到世界坐标并与卡片包围盒求交
+   */
+  const cardsInMarquee = (start: Point, end: Point): string[] => {
+    const area = {
+      x: (Math.min(start.x, end.x) - offset.x) / scale,
+      y: (Math.min(start.y, end.y) - offset.y) / scale,
+      width: Math.abs(end.x - start.x) / scale,
+      height: Math.abs(end.y - start.y) / scale
+    };
+    return elements.filter(el => rectsIntersect(area, getCardRect(el, cardSizes))).map(el => el.id);
+  };
+
+  // 网格点阵随缩放变化，过密时按 2 的倍数合并，避免缩小后铺满噪点
+  const gridPixelSize = useMemo(() => {
+    let size = GRID_SIZE * scale;
+    while (size < 16) size *= 2;
+    return size;
+  }, [scale]);
+
   const handleWheel = useCallback((e: React.WheelEvent) => {
     if (mainRef.current) {
       const rect = mainRef.current.getBoundingClientRect();
@@ -373,8 +1464,15 @@ const App: React.FC = () => {
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z') { e.preventDefault(); undo(); }
+      const isEditing = ['INPUT', 'TEXTAREA'].includes((e.target as HTMLElement).tagName);
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') { e.preventDefault(); if (e.shiftKey) redo(); else undo(); }
       if ((e.ctrlKey || e.metaKey) && e.key === 'y') { e.preventDefault(); redo(); }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') { e.preventDefault(); setShowSearchPalette(prev => !prev); }
+      if (!isEditing) {
+        if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'a') { e.preventDefault(); setSelectedIds(docRef.current.elements.map(el => el.id)); }
+        if (e.key === 'Escape') { setSelectedIds([]); setSelectedNode(null); }
+        if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIdsRef.current.length > 0) { e.preventDefault(); deleteElements(selectedIdsRef.current); }
+      }
       if (e.code === 'Space' && !['INPUT', 'TEXTAREA'].includes((e.target as HTMLElement).tagName)) { e.preventDefault(); setIsSpaceDown(true); setMode('pan'); }
     };
     const handleKeyUp = (e: KeyboardEvent) => { if (e.code === 'Space') { setIsSpaceDown(false); setMode('select'); } };
@@ -401,7 +1499,7 @@ const App: React.FC = () => {
         actions.push({ id: 'review', label: '执行并发风险审计', icon: <ShieldCheck className="w-3.5 h-3.5 text-emerald-400" />, onClick: () => handleCommand('/review') });
       } else {
         actions.push({ id: 'note', label: '添加技术备注', icon: <StickyNote className="w-3.5 h-3.5 text-yellow-400" />, onClick: () => handleCommand('/note') });
-        actions.push({ id: 'link_auto', label: '关联已有模块', icon: <LinkIcon className="w-3.5 h-3.5 text-sky-400" />, onClick: () => addMessage('assistant', '请在指令框输入 `@模块1 @模块2` 来建立连接。', AgentRole.INTERACTION_FEEDBACK) });
+        actions.push({ id: 'link_auto', label: '关联已有模块', icon: <LinkIcon className="w-3.5 h-3.5 text-sky-400" />, onClick: () => addMessage('assistant', '请在指令框输入 `/link @模块1 @模块2` 来建立连接。', AgentRole.INTERACTION_FEEDBACK) });
       }
       actions.push({ id: 'clear', label: '重置工作区', icon: <Trash2 className="w-3.5 h-3.5 text-rose-400" />, onClick: () => handleCommand('/clear') });
     }
@@ -413,6 +1511,8 @@ const App: React.FC = () => {
     [elements, searchQuery]
   );
 
+  const mentionText = (m: { element: CanvasElement; node?: string }) => m.node ? `${m.element.title}·${m.node}` : m.element.title;
+
   const insertMention = (title: string) => {
     const lastAtIdx = userInput.lastIndexOf('@');
     const newVal = userInput.slice(0, lastAtIdx) + '@' + title + ' ';
@@ -428,6 +1528,8 @@ const App: React.FC = () => {
   return (
     <div className="flex h-screen w-screen bg-[#020617] text-slate-200 overflow-hidden font-sans select-none">
       <input type="file" ref={fileRef} className="hidden" accept="image/*" onChange={onFileChange} />
+      <input type="file" ref={importFileRef} className="hidden" accept=".mmd,.mermaid,.md,.markdown" multiple onChange={(e) => { const files = Array.from<File>(e.target.files || []); e.target.value = ''; importDiagramFiles(files); }} />
+      <input type="file" ref={archiveFileRef} className="hidden" accept=".json,application/json" onChange={onArchiveFileChange} />
       
       <aside className="w-[420px] h-full border-r border-slate-800 bg-slate-900/80 backdrop-blur-3xl z-20 flex flex-col shadow-2xl relative">
         <div className="p-7 border-b border-slate-800 flex items-center justify-between">
@@ -436,11 +1538,21 @@ const App: React.FC = () => {
              <h1 className="font-black tracking-tighter uppercase text-sm bg-gradient-to-r from-indigo-400 to-sky-400 bg-clip-text text-transparent">ARCH PRO ENGINE</h1>
            </div>
            <div className="flex gap-1">
-             <button onClick={undo} disabled={history.length===0} className="p-2 hover:bg-white/5 rounded-lg disabled:opacity-20 transition-all active:scale-90"><Undo2 className="w-4 h-4" /></button>
-             <button onClick={redo} disabled={future.length===0} className="p-2 hover:bg-white/5 rounded-lg disabled:opacity-20 transition-all active:scale-90"><Redo2 className="w-4 h-4" /></button>
+             <button onClick={undo} disabled={historyState.past.length===0} className="p-2 hover:bg-white/5 rounded-lg disabled:opacity-20 transition-all active:scale-90"><Undo2 className="w-4 h-4" /></button>
+             <button onClick={redo} disabled={historyState.future.length===0} className="p-2 hover:bg-white/5 rounded-lg disabled:opacity-20 transition-all active:scale-90"><Redo2 className="w-4 h-4" /></button>
+             <button onClick={() => setShowHistoryPanel(!showHistoryPanel)} className={`p-2 hover:bg-white/5 rounded-lg transition-all active:scale-90 ${showHistoryPanel ? 'text-indigo-400' : ''}`} title="操作历史"><History className="w-4 h-4" /></button>
+             <button onClick={() => setShowModelSettings(true)} className="p-2 hover:bg-white/5 rounded-lg transition-all active:scale-90" title="模型设置"><Cpu className="w-4 h-4" /></button>
            </div>
         </div>
 
+        <div className="px-7 pt-5">
+          <ProjectSwitcher
+            projects={projects} activeId={activeProjectId} isSaving={isSaving}
+            onSwitch={switchProject} onCreate={createNewProject} onRename={renameWorkspaceProject}
+            onDuplicate={duplicateWorkspaceProject} onDelete={deleteWorkspaceProject}
+          />
+        </div>
+
         <div className="px-7 py-5 border-b border-slate-800 flex justify-between items-center bg-slate-900/40">
            <div className="flex flex-col">
              <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest">Complexity</span>
@@ -450,6 +1562,7 @@ const App: React.FC = () => {
              <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest">Connectivity</span>
              <span className="text-xs font-mono font-bold text-sky-400">{healthStats.connectivity}</span>
            </div>
+           <RenderMetricsStat />
            <div className="flex flex-col items-end">
              <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest">Audit Score</span>
              <div className="flex items-center gap-1.5">
@@ -467,6 +1580,13 @@ const App: React.FC = () => {
             { role: AgentRole.GENERATOR, status: 'idle', message: '就绪' }
           ]} thinkingSteps={thinkingSteps} />
 
+          {showHistoryPanel && (
+            <HistoryPanel
+              history={historyState} maxDepth={historyLimit}
+              onJump={jumpToHistory} onChangeMaxDepth={changeHistoryLimit} onClose={() => setShowHistoryPanel(false)}
+            />
+          )}
+
           {elements.length > 0 && (
             <div className="bg-slate-950/60 border border-slate-800 rounded-3xl overflow-hidden shadow-inner">
                <button 
@@ -489,6 +1609,7 @@ const App: React.FC = () => {
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
                       />
+                      <button onClick={() => setShowSearchPalette(true)} className="absolute right-2 top-1/2 -translate-y-1/2 px-1.5 py-0.5 rounded-md border border-slate-700 text-[8px] font-mono text-slate-500 hover:text-indigo-300 hover:border-indigo-500/40 transition-colors" title="全文搜索（模块、节点、笔记、连线、对话）">Ctrl K</button>
                     </div>
                     <div className="space-y-1.5 max-h-48 overflow-y-auto custom-scrollbar pr-1">
                       {filteredIndex.map(el => (
@@ -509,7 +1630,7 @@ const App: React.FC = () => {
 
           <div className="space-y-8">
             {messages.map((msg) => (
-              <div key={msg.id} className={`flex flex-col gap-2.5 ${msg.role === 'user' ? 'items-end' : 'items-start'} animate-in slide-in-from-bottom-2 fade-in duration-300`}>
+              <div key={msg.id} data-message-id={msg.id} className={`flex flex-col gap-2.5 ${msg.role === 'user' ? 'items-end' : 'items-start'} animate-in slide-in-from-bottom-2 fade-in duration-300`}>
                 <div className={`flex items-center gap-2 px-3 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
                   <div className={`p-1 rounded-md ${msg.role === 'user' ? 'bg-indigo-500/20 text-indigo-400' : 'bg-slate-800 text-indigo-400'}`}>
                     <Zap className="w-2.5 h-2.5" />
@@ -526,36 +1647,19 @@ const App: React.FC = () => {
                   {msg.type === 'plan' ? (
                     <div className="space-y-4 py-1">
                       <p className="font-bold text-slate-100">{msg.content}</p>
-                      <div className="space-y-2 max-h-72 overflow-y-auto pr-2 custom-scrollbar">
-                        {msg.plan?.map((node) => (
-                          <div key={node.id} className="flex flex-col gap-2 p-3 bg-slate-900/60 rounded-2xl border border-white/5 group hover:border-indigo-500/40 transition-all">
-                            <div className="flex items-center gap-3">
-                              <button 
-                                onClick={() => {
-                                  setMessages(prev => prev.map(m => m.id === msg.id ? {
-                                    ...m, plan: m.plan?.map(n => n.id === node.id ? { ...n, selected: !n.selected } : n)
-                                  } : m));
-                                }}
-                                className={`p-1 rounded-md transition-colors ${node.selected ? 'text-indigo-400 bg-indigo-500/15' : 'text-slate-600 hover:text-slate-400'}`}
-                              >
-                                {node.selected ? <CheckCircle2 className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
-                              </button>
-                              <div className="flex-1 min-w-0">
-                                <input 
-                                  className="bg-transparent font-bold truncate text-slate-200 focus:outline-none border-b border-transparent focus:border-indigo-500/50 w-full"
-                                  value={node.title}
-                                  onChange={(e) => {
-                                    const newTitle = e.target.value;
-                                    setMessages(prev => prev.map(m => m.id === msg.id ? { ...m, plan: m.plan?.map(n => n.id === node.id ? { ...n, title: newTitle } : n) } : m));
-                                  }}
-                                />
-                              </div>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
+                      <PlanEditor
+                        plan={msg.plan || []}
+                        hierarchy={msg.hierarchy}
+                        customHierarchy={msg.customHierarchy}
+                        canReplan={!!msg.sourceInput}
+                        busy={isProcessing}
+                        onReplan={(rule) => replanMessage(msg, rule)}
+                        onChange={(plan, label, coalesceKey) => commitChange('plan', label, doc => ({
+                          messages: doc.messages.map(m => m.id === msg.id ? { ...m, plan } : m)
+                        }), { coalesceKey })}
+                      />
                       <button 
-                        onClick={() => executeGeneration(msg.plan!, "根据选定方案绘制架构。")}
+                        onClick={() => executeGeneration(msg.plan!, msg.sourceInput || "根据选定方案绘制架构。", msg.hierarchy)}
                         className="w-full py-4 bg-gradient-to-r from-indigo-600 to-indigo-500 hover:from-indigo-500 hover:to-indigo-400 rounded-2xl font-black text-xs flex items-center justify-center gap-2 shadow-2xl active:scale-95 transition-all group"
                       >
                         <Zap className="w-4 h-4 fill-white group-hover:animate-bounce" />
@@ -603,10 +1707,10 @@ const App: React.FC = () => {
                   <AtSign className="w-3 h-3 text-indigo-400" />
                   <span className="text-[9px] font-black uppercase text-slate-500">提及目标模块</span>
                 </div>
-                {filteredMentions.map((el, idx) => (
-                  <button key={el.id} onClick={() => insertMention(el.title)} onMouseEnter={() => setMentionMenuIndex(idx)} className={`w-full px-5 py-4 flex items-center justify-between text-left transition-colors ${idx === mentionMenuIndex ? 'bg-indigo-600' : 'hover:bg-white/5'}`}>
-                    <span className="text-xs font-bold text-white truncate">{el.title}</span>
-                    <span className="text-[9px] bg-black/30 px-2 py-0.5 rounded text-slate-400 uppercase">{el.type}</span>
+                {filteredMentions.map((m, idx) => (
+                  <button key={m.key} onClick={() => insertMention(mentionText(m))} onMouseEnter={() => setMentionMenuIndex(idx)} className={`w-full px-5 py-4 flex items-center justify-between text-left transition-colors ${idx === mentionMenuIndex ? 'bg-indigo-600' : 'hover:bg-white/5'}`}>
+                    <span className="text-xs font-bold text-white truncate">{m.node ? <>{m.node}<span className="text-slate-400 font-normal"> · {m.element.title}</span></> : m.element.title}</span>
+                    <span className="text-[9px] bg-black/30 px-2 py-0.5 rounded text-slate-400 uppercase">{m.node ? '节点' : m.element.type}</span>
                   </button>
                 ))}
               </div>
@@ -633,7 +1737,7 @@ const App: React.FC = () => {
                 if (showMentionMenu) {
                   if (e.key === 'ArrowDown') { e.preventDefault(); setMentionMenuIndex(i => (i + 1) % filteredMentions.length); }
                   else if (e.key === 'ArrowUp') { e.preventDefault(); setMentionMenuIndex(i => (i - 1 + filteredMentions.length) % filteredMentions.length); }
-                  else if (e.key === 'Enter') { e.preventDefault(); insertMention(filteredMentions[mentionMenuIndex].title); }
+                  else if (e.key === 'Enter') { e.preventDefault(); insertMention(mentionText(filteredMentions[mentionMenuIndex])); }
                   else if (e.key === 'Escape') { setShowMentionMenu(false); }
                 } else if (showMenu) {
                   if (e.key === 'ArrowDown') { e.preventDefault(); setMenuIndex(i => (i + 1) % filteredCommands.length); }
@@ -660,66 +1764,233 @@ const App: React.FC = () => {
 
       <main 
         ref={mainRef}
-        className={`flex-1 relative overflow-hidden bg-[radial-gradient(#1e293b_1.5px,transparent_1.5px)] [background-size:60px_60px] ${isSpaceDown ? 'cursor-grabbing' : mode === 'pan' ? 'cursor-grab' : 'cursor-crosshair'}`}
-        onMouseDown={(e) => { if(isSpaceDown || mode==='pan' || e.shiftKey) setDraggingId('pan'); }}
+        style={showGrid ? { backgroundSize: `${gridPixelSize}px ${gridPixelSize}px`, backgroundPosition: `${offset.x}px ${offset.y}px` } : undefined}
+        className={`flex-1 relative overflow-hidden ${showGrid ? 'bg-[radial-gradient(#1e293b_1.5px,transparent_1.5px)]' : ''} ${isSpaceDown ? 'cursor-grabbing' : mode === 'pan' ? 'cursor-grab' : 'cursor-crosshair'}`}
+        onMouseDown={(e) => {
+          if (isSpaceDown || mode === 'pan' || e.button === 1) { setDraggingId('pan'); return; }
+          const target = e.target as HTMLElement;
+          if (e.button !== 0 || target.closest('[data-card-id], [data-export-ignore]')) return;
+          // 空白处拖拽为框选，Shift 框选在已有选择上追加
+          const rect = e.currentTarget.getBoundingClientRect();
+          const start = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+          const base = e.shiftKey ? selectedIds : [];
+          setSelectedIds(base);
+          setMarquee({ start, end: start, base });
+        }}
         onMouseMove={(e) => {
           if (draggingId === 'pan') setOffset(prev => ({ x: prev.x + e.movementX, y: prev.y + e.movementY }));
-          else if (draggingId) setElements(prev => prev.map(el => el.id === draggingId ? { ...el, x: el.x + e.movementX / scale, y: el.y + e.movementY / scale } : el));
+          else if (marquee) {
+            const rect = e.currentTarget.getBoundingClientRect();
+            const end = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+            setMarquee({ ...marquee, end });
+            setSelectedIds(Array.from(new Set([...marquee.base, ...cardsInMarquee(marquee.start, end)])));
+          }
+          else if (draggingId && dragOriginRef.current && dragStartElementsRef.current) {
+            const { ids, pointer } = dragOriginRef.current;
+            const startById = new Map<string, CanvasElement>(dragStartElementsRef.current.map(el => [el.id, el]));
+            const bounds = unionRect(ids.filter(id => startById.has(id)).map(id => getCardRect(startById.get(id)!, cardSizes)));
+            let dx = (e.clientX - pointer.x) / scale;
+            let dy = (e.clientY - pointer.y) / scale;
+            // 按住 Alt 临时关闭吸附
+            if (e.altKey) setSnapGuides([]);
+            else {
+              const others = elements.filter(el => !ids.includes(el.id)).map(el => getCardRect(el, cardSizes));
+              const snap = computeSnap({ ...bounds, x: bounds.x + dx, y: bounds.y + dy }, others, {
+                threshold: SNAP_THRESHOLD / scale, gridSize: showGrid ? GRID_SIZE : undefined
+              });
+              dx = snap.x - bounds.x; dy = snap.y - bounds.y;
+              setSnapGuides(snap.guides);
+            }
+            setElements(prev => prev.map(el => {
+              const start = ids.includes(el.id) ? startById.get(el.id) : undefined;
+              return start ? { ...el, x: start.x + dx, y: start.y + dy } : el;
+            }));
+          }
+        }}
+        onMouseUp={() => {
+          if (draggingId && draggingId !== 'pan' && dragStartElementsRef.current) {
+            const group = dragOriginRef.current?.ids ?? [draggingId];
+            const dragged = elements.find(el => el.id === draggingId);
+            const label = group.length > 1 ? `移动 ${group.length} 个模块` : `移动：${dragged?.title ?? ''}`;
+            // 只记录位置变化；固定位置需通过标题栏的固定按钮显式设置
+            recordPatches('move', label, diffDocuments({ elements: dragStartElementsRef.current }, { elements }), { coalesceKey: `move:${[...group].sort().join(',')}` });
+          }
+          dragStartElementsRef.current = null;
+          dragOriginRef.current = null;
+          setSnapGuides([]);
+          setMarquee(null);
+          setDraggingId(null);
         }}
-        onMouseUp={() => setDraggingId(null)}
         onWheel={handleWheel}
+        onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) { e.preventDefault(); setIsDragOver(true); } }}
+        onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDragOver(false); }}
+        onDrop={(e) => { e.preventDefault(); setIsDragOver(false); importDiagramFiles(Array.from(e.dataTransfer.files)); }}
       >
-        <div className="absolute inset-0 origin-top-left" style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})` }}>
+        {isDragOver && (
+          <div data-export-ignore className="absolute inset-6 z-[90] rounded-[44px] border-2 border-dashed border-sky-400/60 bg-sky-500/5 flex items-center justify-center pointer-events-none">
+            <div className="flex items-center gap-3 px-6 py-4 bg-slate-900/90 rounded-2xl border border-sky-500/30">
+              <FileInput className="w-5 h-5 text-sky-400" />
+              <span className="text-xs font-black tracking-widest text-sky-200">释放以导入 .mmd / Markdown 中的 Mermaid 图表</span>
+            </div>
+          </div>
+        )}
+        {marquee && (
+          <div
+            data-export-ignore
+            className="absolute z-[80] border border-sky-400/70 bg-sky-400/10 rounded-md pointer-events-none"
+            style={{
+              left: Math.min(marquee.start.x, marquee.end.x), top: Math.min(marquee.start.y, marquee.end.y),
+              width: Math.abs(marquee.end.x - marquee.start.x), height: Math.abs(marquee.end.y - marquee.start.y)
+            }}
+          />
+        )}
+        <div ref={canvasLayerRef} className="absolute inset-0 origin-top-left" style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})` }}>
+          {snapGuides.map((g, i) => (
+            <div
+              key={i} data-export-ignore className="absolute bg-pink-500/80 pointer-events-none z-[60]"
+              style={g.orientation === 'vertical'
+                ? { left: g.position - 0.75 / scale, top: g.start, width: 1.5 / scale, height: g.end - g.start }
+                : { left: g.start, top: g.position - 0.75 / scale, width: g.end - g.start, height: 1.5 / scale }}
+            />
+          ))}
+          <ConnectionLayer elements={elements} connections={connections} cardSizes={cardSizes} activeId={draggingId !== 'pan' ? draggingId || highlightedId : highlightedId} />
           {elements.map(el => (
             <div 
-              key={el.id} id={`card-${el.id}`}
-              className={`absolute bg-slate-900 border-2 rounded-[44px] w-[550px] shadow-[0_30px_60px_rgba(0,0,0,0.5)] transition-all duration-500 ${highlightedId === el.id ? 'ring-[12px] ring-indigo-500/30 border-indigo-400 shadow-[0_0_80px_rgba(99,102,241,0.5)] animate-pulse' : 'border-slate-800'} ${draggingId === el.id ? 'z-50 border-indigo-400 scale-[1.03] rotate-1 shadow-2xl' : 'z-10'}`} 
-              style={{ left: el.x, top: el.y }}
+              key={el.id} ref={cardRef(el.id)} id={`card-${el.id}`} data-card-id={el.id}
+              className={`absolute bg-slate-900 border-2 rounded-[44px] w-[550px] shadow-[0_30px_60px_rgba(0,0,0,0.5)] transition-[transform,box-shadow,border-color] duration-500 ${highlightedId === el.id ? 'ring-[12px] ring-indigo-500/30 border-indigo-400 shadow-[0_0_80px_rgba(99,102,241,0.5)] animate-pulse' : selectedIds.includes(el.id) ? 'ring-[6px] ring-sky-400/30 border-sky-400' : 'border-slate-800'} ${draggingId === el.id ? 'z-50 border-indigo-400 scale-[1.03] rotate-1 shadow-2xl' : 'z-10'}`} 
+              style={{ left: el.x, top: el.y, height: isLowDetail ? (cardSizes[el.id]?.height || DEFAULT_CARD_HEIGHT) : undefined }}
             >
-              <div className="px-8 py-6 border-b border-slate-800/60 flex items-center justify-between cursor-grab active:cursor-grabbing" onMouseDown={(e) => { e.stopPropagation(); setDraggingId(el.id); }}>
-                <div className="flex items-center gap-3">
-                  <div className={`w-8 h-8 rounded-xl ${el.type === DiagramType.NOTE ? 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20' : 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20'} flex items-center justify-center font-black text-[10px] border shadow-inner`}>{el.level || 'L'}</div>
-                  <span className="text-[12px] font-black uppercase tracking-widest text-slate-100">{el.title}</span>
+              {isLowDetail ? (
+                <div className="h-full flex flex-col items-center justify-center gap-8 px-12 text-center cursor-grab active:cursor-grabbing" onMouseDown={(e) => startCardDrag(e, el)}>
+                  <div className={`w-24 h-24 rounded-3xl ${el.type === DiagramType.NOTE ? 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20' : 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20'} flex items-center justify-center font-black text-4xl border-2`}>{el.level || 'L'}</div>
+                  <span className="text-5xl font-black leading-tight text-slate-100 break-words">{el.title}</span>
                 </div>
-                <div className="flex items-center gap-1">
-                  <button onClick={(e) => { e.stopPropagation(); setShowSourceMap(prev => ({ ...prev, [el.id]: !prev[el.id] })); }} className={`p-2.5 transition-colors rounded-xl hover:bg-white/5 ${showSourceMap[el.id] ? 'text-indigo-400' : 'text-slate-500'}`} title="切换源码/视图"><Code2 className="w-4 h-4" /></button>
-                  <button onClick={(e) => { e.stopPropagation(); pushToHistory(); setElements(prev => prev.filter(i => i.id !== el.id)); }} className="text-slate-600 hover:text-rose-400 p-2.5 transition-colors rounded-xl hover:bg-white/5 active:scale-90" title="移除卡片"><Trash2 className="w-4 h-4" /></button>
-                </div>
-              </div>
-              <div className="p-10">
-                {el.type === DiagramType.NOTE ? (
-                  <textarea value={el.content || ''} onChange={(e) => setElements(prev => prev.map(i => i.id === el.id ? { ...i, content: e.target.value } : i))} className="w-full h-40 bg-transparent text-yellow-100/70 font-mono text-xs leading-relaxed outline-none resize-none border-none p-0 custom-scrollbar" placeholder="在此输入你的架构思考..." />
-                ) : (
-                  <>
-                    <div className="relative overflow-hidden rounded-3xl bg-black/20 p-2 border border-white/5 shadow-inner min-h-[250px] flex items-center justify-center">
-                      {showSourceMap[el.id] ? (
-                        <div className="bg-black/50 p-6 rounded-2xl font-mono text-[10px] text-indigo-300/80 border border-white/5 w-full h-full max-h-[400px] overflow-auto whitespace-pre custom-scrollbar">{el.mermaidCode}</div>
-                      ) : (
-                        <SmartDiagram id={el.id} code={el.mermaidCode} isVisible={true} themeVars={THEMES[0].mermaidVars} />
-                      )}
+              ) : (
+                <>
+                  <div className="px-8 py-6 border-b border-slate-800/60 flex items-center justify-between cursor-grab active:cursor-grabbing" onMouseDown={(e) => startCardDrag(e, el)}>
+                    <div className="flex items-center gap-3">
+                      <div className={`w-8 h-8 rounded-xl ${el.type === DiagramType.NOTE ? 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20' : 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20'} flex items-center justify-center font-black text-[10px] border shadow-inner`}>{el.level || 'L'}</div>
+                      <span className="text-[12px] font-black uppercase tracking-widest text-slate-100">{el.title}</span>
                     </div>
-                    <div className="mt-10 flex gap-4 group">
-                      <div className="relative flex-1">
-                         <input 
-                          value={el.localChatInput || ''} 
-                          onChange={(e) => setElements(prev => prev.map(i => i.id === el.id ? { ...i, localChatInput: e.target.value } : i))} 
-                          onKeyDown={(e) => e.key === 'Enter' && updateCardCode(el)} 
-                          placeholder="微调此模块细节（如：增加重试策略）..." 
-                          className="w-full bg-slate-950/50 border border-slate-800 rounded-2xl px-5 py-4 text-[11px] outline-none focus:border-indigo-500/50 transition-all pr-12" 
-                        />
-                        <AtSign className="absolute right-4 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-700 pointer-events-none" />
-                      </div>
-                      <button onClick={() => updateCardCode(el)} className={`p-4 rounded-2xl shadow-xl active:scale-90 transition-all ${el.isLocalUpdating ? 'bg-rose-500/10 text-rose-400' : 'bg-indigo-500/10 text-indigo-400 hover:bg-indigo-600 hover:text-white'}`}>
-                        {el.isLocalUpdating ? <Square className="w-4 h-4 fill-current animate-pulse" /> : <Send className="w-4 h-4" />}
-                      </button>
+                    <div className="flex items-center gap-1">
+                      <CardExportMenu allowMermaid={el.type !== DiagramType.NOTE} onExport={(format) => exportDiagramFiles(format, [el])} />
+                      <button onClick={(e) => {
+                        e.stopPropagation();
+                        commitChange('edit', `${el.pinned ? '取消固定' : '固定'}：${el.title}`, doc => ({
+                          elements: doc.elements.map(i => i.id === el.id ? { ...i, pinned: !el.pinned } : i)
+                        }));
+                      }} className={`p-2.5 transition-colors rounded-xl hover:bg-white/5 ${el.pinned ? 'text-amber-400' : 'text-slate-600'}`} title={el.pinned ? '已固定：自动布局不会移动此卡片（点击取消）' : '固定位置'}><Pin className={`w-4 h-4 ${el.pinned ? 'fill-current' : ''}`} /></button>
+                      <button onClick={(e) => { e.stopPropagation(); setShowSourceMap(prev => ({ ...prev, [el.id]: !prev[el.id] })); }} className={`p-2.5 transition-colors rounded-xl hover:bg-white/5 ${showSourceMap[el.id] ? 'text-indigo-400' : 'text-slate-500'}`} title="编辑源码"><Code2 className="w-4 h-4" /></button>
+                      <button onClick={(e) => { e.stopPropagation(); deleteElements([el.id]); }} className="text-slate-600 hover:text-rose-400 p-2.5 transition-colors rounded-xl hover:bg-white/5 active:scale-90" title="移除卡片"><Trash2 className="w-4 h-4" /></button>
                     </div>
-                  </>
-                )}
-              </div>
+                  </div>
+                  <div className="p-10">
+                    {el.type === DiagramType.NOTE ? (
+                      <textarea value={el.content || ''} onChange={(e) => {
+                        const value = e.target.value;
+                        commitChange('edit', `编辑笔记：${el.title}`, doc => ({
+                          elements: doc.elements.map(i => i.id === el.id ? { ...i, content: value } : i)
+                        }), { coalesceKey: `content:${el.id}` });
+                      }} className="w-full h-40 bg-transparent text-yellow-100/70 font-mono text-xs leading-relaxed outline-none resize-none border-none p-0 custom-scrollbar" placeholder="在此输入你的架构思考..." />
+                    ) : (
+                      <>
+                        {pendingEdits[el.id] && (
+                          <div className="mb-6">
+                            <CodeDiffView
+                              before={pendingEdits[el.id].before} after={pendingEdits[el.id].after} instruction={pendingEdits[el.id].instruction}
+                              onAccept={() => resolvePendingEdit(el, true)} onReject={() => resolvePendingEdit(el, false)}
+                            />
+                          </div>
+                        )}
+                        {showSourceMap[el.id] && (
+                          <div data-export-ignore className="mb-6">
+                            <MermaidEditor value={el.mermaidCode} onChange={(code) => editCardCode(el, code)} errorLine={diagramErrors[el.id]?.line} />
+                          </div>
+                        )}
+                        {generations[el.id] ? (
+                          <GenerationProgress generation={generations[el.id]} onRetry={() => retryCardGeneration(el.id)} onCancel={() => stopCardAI(el.id)} />
+                        ) : (
+                          <div className="relative overflow-hidden rounded-3xl bg-black/20 p-2 border border-white/5 shadow-inner min-h-[250px] flex items-center justify-center">
+                            <SmartDiagram
+                              id={el.id} code={el.mermaidCode} isVisible={visibleIds.has(el.id) || isRenderingAll} priority={renderPriorities[el.id]}
+                              themeVars={getTheme(el.themeId).mermaidVars} onError={reportDiagramError}
+                              onNodeClick={handleDiagramNodeClick} selectedNodeIndex={selectedNode?.elementId === el.id ? selectedNode.hit.index : undefined}
+                              focusNodeLabel={searchFocus?.elementId === el.id ? searchFocus.label : undefined}
+                            />
+                            {selectedNode?.elementId === el.id && (() => {
+                              const { node, hit } = selectedNode;
+                              const label = node?.label || hit.label;
+                              return (
+                                <NodeActionPopover
+                                  key={`${hit.index}:${label}`} label={label} canEdit={!!node} busy={isNodeActionBusy}
+                                  onAsk={(q) => askAboutNode(el, label, q)}
+                                  onRename={(name) => node && renameSelectedNode(el, node, name)}
+                                  onDelete={() => node && deleteSelectedNode(el, node)}
+                                  onDrillDown={() => drillDownNode(el, label)}
+                                  onStop={drillDownControllerRef.current ? stopDrillDown : undefined}
+                                  onClose={() => setSelectedNode(null)}
+                                />
+                              );
+                            })()}
+                          </div>
+                        )}
+                        {diagramErrors[el.id] && !generations[el.id] && (
+                          <div data-export-ignore className="mt-4 flex items-center gap-3 px-4 py-3 bg-rose-500/10 border border-rose-500/20 rounded-2xl">
+                            <span className="flex-1 text-[10px] font-mono text-rose-300 truncate" title={diagramErrors[el.id].message}>{describeDiagramError(diagramErrors[el.id])}</span>
+                            {diagramErrors[el.id].line && !showSourceMap[el.id] && (
+                              <button onClick={(e) => { e.stopPropagation(); setShowSourceMap(prev => ({ ...prev, [el.id]: true })); }} className="px-3 py-1.5 rounded-xl text-[10px] font-bold text-rose-300 hover:bg-white/5 transition-colors whitespace-nowrap">定位源码</button>
+                            )}
+                            <button onClick={(e) => { e.stopPropagation(); repairCard(el); }} disabled={el.isLocalUpdating} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-rose-500/20 text-[10px] font-black text-rose-200 hover:bg-rose-500/30 transition-colors disabled:opacity-40 whitespace-nowrap">
+                              {el.isLocalUpdating ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wrench className="w-3 h-3" />}修复
+                            </button>
+                          </div>
+                        )}
+                        <div className="mt-10 flex gap-4 group">
+                          <div className="relative flex-1">
+                             <input 
+                              value={el.localChatInput || ''} 
+                              onChange={(e) => setElements(prev => prev.map(i => i.id === el.id ? { ...i, localChatInput: e.target.value } : i))} 
+                              onKeyDown={(e) => e.key === 'Enter' && updateCardCode(el)} 
+                              placeholder="微调此模块细节（如：增加重试策略）..." 
+                              className="w-full bg-slate-950/50 border border-slate-800 rounded-2xl px-5 py-4 text-[11px] outline-none focus:border-indigo-500/50 transition-all pr-12" 
+                            />
+                            <AtSign className="absolute right-4 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-700 pointer-events-none" />
+                          </div>
+                          <button onClick={() => updateCardCode(el)} className={`p-4 rounded-2xl shadow-xl active:scale-90 transition-all ${el.isLocalUpdating ? 'bg-rose-500/10 text-rose-400' : 'bg-indigo-500/10 text-indigo-400 hover:bg-indigo-600 hover:text-white'}`}>
+                            {el.isLocalUpdating ? <Square className="w-4 h-4 fill-current animate-pulse" /> : <Send className="w-4 h-4" />}
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </>
+              )}
             </div>
           ))}
         </div>
         
+        {pendingRecovery && (
+          <div data-export-ignore className="absolute top-6 left-1/2 -translate-x-1/2 z-[100] flex items-center gap-4 px-5 py-3 bg-slate-900/95 border border-amber-500/40 rounded-2xl shadow-2xl backdrop-blur-xl animate-in slide-in-from-top-2 duration-300" onMouseDown={(e) => e.stopPropagation()}>
+            <Clock className="w-4 h-4 text-amber-400" />
+            <span className="text-[11px] text-slate-200">检测到 {formatTime(pendingRecovery.updatedAt)} 未保存的会话（{pendingRecovery.archive.elements.length} 个模块）</span>
+            <button onClick={restoreRecoveredSession} className="px-3 py-1.5 bg-amber-500/20 text-amber-300 rounded-lg text-[10px] font-black hover:bg-amber-500/30 transition-colors">恢复</button>
+            <button onClick={discardRecoveredSession} className="px-3 py-1.5 text-slate-400 rounded-lg text-[10px] font-black hover:bg-white/5 transition-colors">忽略</button>
+          </div>
+        )}
+
+        {selectedElements.length > 0 && (
+          <SelectionToolbar
+            count={selectedElements.length}
+            onAlign={alignSelection}
+            onDistribute={distributeSelection}
+            onApplyTheme={applyThemeToSelection}
+            onReview={() => runReview(selectedElements)}
+            onExport={openExportDialog}
+            onDelete={() => deleteElements(selectedIds)}
+            onClear={() => setSelectedIds([])}
+          />
+        )}
+
         <CanvasControlHub 
           scale={scale} mode={mode} onSetMode={setMode}
           onZoomIn={() => setScale(s => Math.min(s * 1.3, 5))} 
@@ -727,15 +1998,27 @@ const App: React.FC = () => {
           onReset={() => { setOffset({x:100,y:100}); setScale(0.8); }}
           onFitView={onFitView} 
           onAutoLayout={() => handleCommand('/layout')}
-          onExportImage={() => {}} 
+          onExportImage={openExportDialog} 
           onSaveProject={() => handleCommand('/save')}
           onLoadProject={() => handleCommand('/load')}
           onClearCanvas={() => handleCommand('/clear')}
-          showGrid={true} onToggleGrid={() => {}}
+          showGrid={showGrid} onToggleGrid={() => setShowGrid(!showGrid)}
           onUndo={undo} onRedo={redo}
-          canUndo={history.length > 0} canRedo={future.length > 0}
+          canUndo={historyState.past.length > 0} canRedo={historyState.future.length > 0}
         />
       </main>
+
+      {showSearchPalette && (
+        <SearchPalette elements={elements} connections={connections} messages={messages} onSelect={selectSearchHit} onClose={() => setShowSearchPalette(false)} />
+      )}
+
+      {showExportDialog && (
+        <ExportDialog elements={elements} initialSelection={exportSelection} onExport={handleExport} onClose={() => setShowExportDialog(false)} />
+      )}
+
+      {showModelSettings && (
+        <ModelSettingsPanel settings={getLLMSettings()} onSave={saveModelSettings} onClose={() => setShowModelSettings(false)} />
+      )}
     </div>
   );
 };
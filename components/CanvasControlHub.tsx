@@ -41,7 +41,7 @@ const CanvasControlHub: React.FC<CanvasControlHubProps> = ({
   const zoomPercentage = Math.round(scale * 100);
 
   return (
-    <div className={`fixed bottom-10 left-1/2 -translate-x-1/2 flex items-center bg-slate-900/90 backdrop-blur-2xl border border-white/10 rounded-full shadow-[0_20px_50px_rgba(0,0,0,0.6)] z-[100] ring-1 ring-white/5 transition-all duration-700 ease-[cubic-bezier(0.23,1,0.32,1)] ${isExpanded ? 'px-3 py-2 gap-4 w-auto' : 'w-14 h-14 justify-center hover:scale-110 cursor-pointer group'}`} onClick={() => !isExpanded && setIsExpanded(true)}>
+    <div data-export-ignore className={`fixed bottom-10 left-1/2 -translate-x-1/2 flex items-center bg-slate-900/90 backdrop-blur-2xl border border-white/10 rounded-full shadow-[0_20px_50px_rgba(0,0,0,0.6)] z-[100] ring-1 ring-white/5 transition-all duration-700 ease-[cubic-bezier(0.23,1,0.32,1)] ${isExpanded ? 'px-3 py-2 gap-4 w-auto' : 'w-14 h-14 justify-center hover:scale-110 cursor-pointer group'}`} onClick={() => !isExpanded && setIsExpanded(true)}>
       
       {!isExpanded ? (
         <Terminal className="w-6 h-6 text-indigo-400 group-hover:rotate-12 transition-transform" />
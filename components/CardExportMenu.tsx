@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { Download, FileCode2, FileText, Network } from 'lucide-react';
+import { DiagramExportFormat } from '../services/diagramExporters';
+
+interface CardExportMenuProps {
+  allowMermaid: boolean;
+  onExport: (format: DiagramExportFormat) => void;
+}
+
+const OPTIONS: { id: DiagramExportFormat; label: string; icon: React.ReactNode }[] = [
+  { id: 'md', label: 'Markdown (.md)', icon: <FileText className="w-3.5 h-3.5" /> },
+  { id: 'mmd', label: 'Mermaid (.mmd)', icon: <FileCode2 className="w-3.5 h-3.5" /> },
+  { id: 'drawio', label: 'draw.io (.drawio)', icon: <Network className="w-3.5 h-3.5" /> }
+];
+
+/**
+ * 卡片头部的单卡导出菜单
+ */
+const CardExportMenu: React.FC<CardExportMenuProps> = ({ allowMermaid, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative" onMouseLeave={() => setIsOpen(false)}>
+      <button onClick={(e) => { e.stopPropagation(); setIsOpen(!isOpen); }} className={`p-2.5 transition-colors rounded-xl hover:bg-white/5 ${isOpen ? 'text-emerald-400' : 'text-slate-500'}`} title="导出此卡片">
+        <Download className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-48 bg-slate-950 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden z-[60]">
+          {OPTIONS.filter(o => allowMermaid || o.id !== 'mmd').map(o => (
+            <button key={o.id} onClick={(e) => { e.stopPropagation(); setIsOpen(false); onExport(o.id); }} className="w-full flex items-center gap-2.5 px-4 py-3 text-[11px] font-bold text-slate-300 hover:bg-indigo-600 hover:text-white transition-colors text-left">
+              {o.icon}{o.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CardExportMenu;
@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { Check, X, GitCompare } from 'lucide-react';
+import { diffLines, diffStats } from '../services/textDiff';
+
+interface CodeDiffViewProps {
+  before: string;
+  after: string;
+  instruction?: string;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const LINE_STYLES = {
+  equal: 'text-slate-500',
+  add: 'bg-emerald-500/15 text-emerald-200',
+  remove: 'bg-rose-500/15 text-rose-300 line-through decoration-rose-500/40'
+};
+
+const LINE_MARKERS = { equal: ' ', add: '+', remove: '-' };
+
+/**
+ * AI 修改结果的行内差异视图，确认后才会替换卡片代码
+ */
+const CodeDiffView: React.FC<CodeDiffViewProps> = ({ before, after, instruction, onAccept, onReject }) => {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const stats = useMemo(() => diffStats(lines), [lines]);
+
+  return (
+    <div data-export-ignore className="bg-slate-950/80 border border-indigo-500/30 rounded-3xl overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="px-5 py-3 flex items-center gap-3 border-b border-white/5">
+        <GitCompare className="w-3.5 h-3.5 text-indigo-400" />
+        <span className="flex-1 text-[10px] font-black uppercase tracking-widest text-slate-300 truncate" title={instruction}>
+          AI 修改建议{instruction ? `：${instruction}` : ''}
+        </span>
+        <span className="text-[10px] font-mono text-emerald-400">+{stats.added}</span>
+        <span className="text-[10px] font-mono text-rose-400">-{stats.removed}</span>
+      </div>
+      <div className="max-h-[360px] overflow-auto custom-scrollbar py-3 font-mono text-[10px]">
+        {lines.map((line, i) => (
+          <div key={i} className={`flex px-4 whitespace-pre leading-[18px] ${LINE_STYLES[line.type]}`}>
+            <span className="w-7 shrink-0 text-right pr-2 text-slate-700 select-none">{line.oldLine ?? ''}</span>
+            <span className="w-7 shrink-0 text-right pr-2 text-slate-700 select-none">{line.newLine ?? ''}</span>
+            <span className="w-4 shrink-0 select-none">{LINE_MARKERS[line.type]}</span>
+            <span>{line.text || ' '}</span>
+          </div>
+        ))}
+      </div>
+      <div className="px-5 py-3 flex justify-end gap-2 border-t border-white/5">
+        <button onClick={onReject} className="flex items-center gap-1.5 px-4 py-2 rounded-xl text-[10px] font-bold text-slate-400 hover:bg-white/5 transition-colors">
+          <X className="w-3 h-3" />放弃
+        </button>
+        <button onClick={onAccept} className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-indigo-600 text-[10px] font-black text-white hover:bg-indigo-500 transition-colors">
+          <Check className="w-3 h-3" />采用修改
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CodeDiffView;
@@ -0,0 +1,62 @@
+import React, { useMemo } from 'react';
+import { CanvasElement, Connection } from '../types';
+import { CardSize } from '../services/geometry';
+import { routeConnections } from '../services/edgeRouter';
+
+interface ConnectionLayerProps {
+  elements: CanvasElement[];
+  connections: Connection[];
+  cardSizes: Record<string, CardSize>;
+  activeId?: string | null; // 拖拽或高亮中的卡片，其关联连线会被强调
+}
+
+/**
+ * 连线渲染层：位于变换后的画布容器内部，与卡片共享世界坐标系
+ */
+const ConnectionLayer: React.FC<ConnectionLayerProps> = ({ elements, connections, cardSizes, activeId }) => {
+  const edges = useMemo(
+    () => routeConnections(elements, connections, cardSizes),
+    [elements, connections, cardSizes]
+  );
+
+  if (edges.length === 0) return null;
+
+  return (
+    <svg className="absolute top-0 left-0 overflow-visible pointer-events-none z-0" width={1} height={1}>
+      <defs>
+        <marker id="edge-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#818cf8" />
+        </marker>
+        <marker id="edge-arrow-active" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#38bdf8" />
+        </marker>
+      </defs>
+      {edges.map(edge => {
+        const isActive = !!activeId && (edge.fromId === activeId || edge.toId === activeId);
+        return (
+          <g key={edge.id} data-edge-from={edge.fromId} data-edge-to={edge.toId}>
+            <path
+              d={edge.path} fill="none"
+              stroke={isActive ? '#38bdf8' : '#6366f1'} strokeOpacity={isActive ? 0.95 : 0.6}
+              strokeWidth={isActive ? 4 : 3} strokeLinejoin="round"
+              markerEnd={`url(#${isActive ? 'edge-arrow-active' : 'edge-arrow'})`}
+            />
+            {edge.label && (
+              <text
+                x={edge.labelPoint.x} y={edge.labelPoint.y}
+                textAnchor="middle" dominantBaseline="central"
+                className="font-black tracking-widest"
+                fontSize={16} fill={isActive ? '#e0f2fe' : '#c7d2fe'}
+                stroke="#020617" strokeWidth={8} strokeLinejoin="round" paintOrder="stroke"
+              >
+                {edge.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default React.memo(ConnectionLayer);
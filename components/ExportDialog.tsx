@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Camera, FileImage, FileText, Loader2, PenTool, X, CheckCircle2, Circle } from 'lucide-react';
+import { CanvasElement } from '../types';
+import { ExportFormat, ExportOptions, ExportScope } from '../services/canvasExporter';
+
+interface ExportDialogProps {
+  elements: CanvasElement[];
+  initialSelection?: string[];
+  onExport: (options: ExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string; desc: string; icon: React.ReactNode }[] = [
+  { id: 'png', label: 'PNG', desc: '高清位图', icon: <FileImage className="w-4 h-4" /> },
+  { id: 'svg', label: 'SVG', desc: '矢量图，可无损缩放', icon: <PenTool className="w-4 h-4" /> },
+  { id: 'pdf', label: 'PDF', desc: '总览 + 每卡一页', icon: <FileText className="w-4 h-4" /> }
+];
+
+const SCOPES: { id: ExportScope; label: string }[] = [
+  { id: 'canvas', label: '整个画布' },
+  { id: 'viewport', label: '当前视口' },
+  { id: 'selection', label: '选定卡片' }
+];
+
+const PIXEL_RATIOS = [1, 2, 3, 4];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ elements, initialSelection = [], onExport, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [scope, setScope] = useState<ExportScope>(initialSelection.length > 0 ? 'selection' : 'canvas');
+  const [pixelRatio, setPixelRatio] = useState(2);
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialSelection);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+
+  const submit = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport({ format, scope, pixelRatio, selectedIds });
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/60 backdrop-blur-sm" data-export-ignore onMouseDown={(e) => e.stopPropagation()}>
+      <div className="w-[460px] bg-slate-900 border border-slate-700 rounded-3xl shadow-2xl p-7 space-y-6 animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Camera className="w-5 h-5 text-emerald-400" />
+            <h2 className="text-sm font-black tracking-widest uppercase text-slate-100">高清导出</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-white/5 text-slate-500"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {FORMATS.map(f => (
+            <button key={f.id} onClick={() => setFormat(f.id)} className={`flex flex-col items-center gap-1.5 p-3 rounded-2xl border transition-all ${format === f.id ? 'border-emerald-500/60 bg-emerald-500/10 text-emerald-300' : 'border-slate-800 text-slate-400 hover:border-slate-600'}`}>
+              {f.icon}
+              <span className="text-[11px] font-black">{f.label}</span>
+              <span className="text-[9px] text-slate-500">{f.desc}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">导出范围</span>
+          <div className="flex gap-2">
+            {SCOPES.map(s => (
+              <button key={s.id} onClick={() => setScope(s.id)} className={`flex-1 py-2 rounded-xl text-[10px] font-bold border transition-all ${scope === s.id ? 'border-indigo-500/60 bg-indigo-500/15 text-indigo-200' : 'border-slate-800 text-slate-400 hover:border-slate-600'}`}>{s.label}</button>
+            ))}
+          </div>
+          {scope === 'selection' && (
+            <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1 pt-1">
+              {elements.map(el => (
+                <button key={el.id} onClick={() => toggleSelected(el.id)} className="w-full flex items-center gap-2 px-3 py-2 rounded-xl hover:bg-white/5 text-left">
+                  {selectedIds.includes(el.id) ? <CheckCircle2 className="w-3.5 h-3.5 text-indigo-400" /> : <Circle className="w-3.5 h-3.5 text-slate-600" />}
+                  <span className="text-[10px] text-slate-300 truncate">{el.title}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className={`space-y-2 ${format === 'svg' ? 'opacity-30 pointer-events-none' : ''}`}>
+          <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">分辨率倍数</span>
+          <div className="flex gap-2">
+            {PIXEL_RATIOS.map(r => (
+              <button key={r} onClick={() => setPixelRatio(r)} className={`flex-1 py-2 rounded-xl text-[10px] font-mono font-bold border transition-all ${pixelRatio === r ? 'border-indigo-500/60 bg-indigo-500/15 text-indigo-200' : 'border-slate-800 text-slate-400 hover:border-slate-600'}`}>{r}x</button>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-[10px] text-rose-400 font-mono">{error}</p>}
+
+        <button
+          onClick={submit} disabled={isExporting || (scope === 'selection' && selectedIds.length === 0)}
+          className="w-full py-3.5 bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 rounded-2xl font-black text-xs flex items-center justify-center gap-2 shadow-2xl active:scale-95 transition-all disabled:opacity-40"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+          {isExporting ? '正在导出...' : `导出 ${format.toUpperCase()}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,60 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2, Clock, ShieldCheck, AlertTriangle, Ban, RotateCcw, Square } from 'lucide-react';
+import { CardGeneration, GenerationStatus } from '../types';
+
+interface GenerationProgressProps {
+  generation: CardGeneration;
+  onRetry: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_META: Record<GenerationStatus, { label: string; icon: React.ReactNode; className: string }> = {
+  queued: { label: '排队中', icon: <Clock className="w-3.5 h-3.5" />, className: 'text-slate-400' },
+  streaming: { label: '生成中', icon: <Loader2 className="w-3.5 h-3.5 animate-spin" />, className: 'text-indigo-300' },
+  validating: { label: '语法校验中', icon: <ShieldCheck className="w-3.5 h-3.5 animate-pulse" />, className: 'text-emerald-300' },
+  failed: { label: '生成失败', icon: <AlertTriangle className="w-3.5 h-3.5" />, className: 'text-rose-300' },
+  cancelled: { label: '已取消', icon: <Ban className="w-3.5 h-3.5" />, className: 'text-slate-500' }
+};
+
+/**
+ * 卡片生成进度：流式展示已生成的 Mermaid 代码与当前状态，进行中可停止，失败或取消后可重试
+ */
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ generation, onRetry, onCancel }) => {
+  const codeRef = useRef<HTMLPreElement>(null);
+  const { status, partialCode, attempt, error } = generation;
+  const meta = STATUS_META[status];
+  const isActive = status === 'queued' || status === 'streaming' || status === 'validating';
+
+  // 新内容到达时滚动到末尾
+  useEffect(() => {
+    if (codeRef.current) codeRef.current.scrollTop = codeRef.current.scrollHeight;
+  }, [partialCode]);
+
+  return (
+    <div data-export-ignore className="rounded-3xl bg-black/20 border border-white/5 shadow-inner min-h-[250px] flex flex-col overflow-hidden">
+      <div className="px-5 py-3 flex items-center gap-2 border-b border-white/5">
+        <span className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest ${meta.className}`}>
+          {meta.icon}{meta.label}
+        </span>
+        {attempt > 1 && <span className="text-[9px] font-mono text-slate-500">第 {attempt} 次尝试</span>}
+        <div className="flex-1" />
+        {isActive ? (
+          <button onClick={(e) => { e.stopPropagation(); onCancel(); }} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-[10px] font-bold text-rose-300 hover:bg-rose-500/10 transition-colors">
+            <Square className="w-3 h-3 fill-current" />停止
+          </button>
+        ) : (
+          <button onClick={(e) => { e.stopPropagation(); onRetry(); }} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-indigo-500/20 text-[10px] font-black text-indigo-200 hover:bg-indigo-500/30 transition-colors">
+            <RotateCcw className="w-3 h-3" />重试
+          </button>
+        )}
+      </div>
+      {error && <div className="px-5 py-2 text-[10px] font-mono text-rose-300 bg-rose-500/10 truncate" title={error}>{error}</div>}
+      <pre ref={codeRef} className="flex-1 max-h-[320px] overflow-auto custom-scrollbar px-5 py-4 text-[11px] leading-relaxed font-mono text-slate-400 whitespace-pre-wrap">
+        {partialCode || (status === 'queued' ? '等待空闲的生成通道...' : '')}
+        {status === 'streaming' && <span className="inline-block w-1.5 h-3 ml-0.5 bg-indigo-400 animate-pulse align-middle" />}
+      </pre>
+    </div>
+  );
+};
+
+export default GenerationProgress;
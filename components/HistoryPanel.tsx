@@ -0,0 +1,86 @@
+import React from 'react';
+import {
+  History, Plus, Move, Code2, Link as LinkIcon, Trash2, Palette, Wand2, ListChecks, FolderOpen, X, Circle
+} from 'lucide-react';
+import { HistoryState, OperationType } from '../services/historyManager';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  maxDepth: number;
+  onJump: (pastLength: number) => void;
+  onChangeMaxDepth: (depth: number) => void;
+  onClose: () => void;
+}
+
+const TYPE_ICONS: Record<OperationType, React.ReactNode> = {
+  add: <Plus className="w-3 h-3 text-emerald-400" />,
+  move: <Move className="w-3 h-3 text-sky-400" />,
+  edit: <Code2 className="w-3 h-3 text-indigo-400" />,
+  link: <LinkIcon className="w-3 h-3 text-indigo-400" />,
+  delete: <Trash2 className="w-3 h-3 text-rose-400" />,
+  theme: <Palette className="w-3 h-3 text-pink-400" />,
+  layout: <Wand2 className="w-3 h-3 text-amber-400" />,
+  plan: <ListChecks className="w-3 h-3 text-slate-300" />,
+  import: <FolderOpen className="w-3 h-3 text-sky-400" />
+};
+
+const DEPTH_OPTIONS: { value: number; label: string }[] = [
+  { value: 50, label: '50 步' },
+  { value: 200, label: '200 步' },
+  { value: Infinity, label: '不限' }
+];
+
+/**
+ * 历史面板：展示已执行（实线）与可重做（虚化）的操作，点击任一条目跳转到该操作完成后的状态
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, maxDepth, onJump, onChangeMaxDepth, onClose }) => {
+  const entries = [
+    ...history.past.map((op, i) => ({ op, pastLength: i + 1, applied: true })),
+    ...history.future.map((op, i) => ({ op, pastLength: history.past.length + i + 1, applied: false }))
+  ];
+  const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour12: false });
+
+  return (
+    <div className="bg-slate-950/80 border border-slate-800 rounded-3xl overflow-hidden shadow-inner animate-in slide-in-from-top-2 duration-300">
+      <div className="px-5 py-4 flex items-center justify-between border-b border-white/5">
+        <div className="flex items-center gap-3">
+          <History className="w-3.5 h-3.5 text-slate-500" />
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">操作历史 ({history.past.length}/{entries.length})</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={String(maxDepth)}
+            onChange={(e) => onChangeMaxDepth(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-800 rounded-lg text-[9px] text-slate-400 px-1.5 py-1 outline-none"
+            title="历史深度"
+          >
+            {DEPTH_OPTIONS.map(o => <option key={o.label} value={String(o.value)}>{o.label}</option>)}
+          </select>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-white/5 text-slate-500"><X className="w-3 h-3" /></button>
+        </div>
+      </div>
+      <div className="max-h-60 overflow-y-auto custom-scrollbar p-2 space-y-0.5">
+        <button
+          onClick={() => onJump(0)}
+          className={`w-full flex items-center gap-2.5 px-3 py-2 rounded-xl text-left transition-colors hover:bg-white/5 ${history.past.length === 0 ? 'bg-indigo-500/15' : ''}`}
+        >
+          <Circle className="w-3 h-3 text-slate-500" />
+          <span className="text-[10px] font-bold text-slate-400">初始状态</span>
+        </button>
+        {entries.map(({ op, pastLength, applied }) => (
+          <button
+            key={op.id}
+            onClick={() => onJump(pastLength)}
+            className={`w-full flex items-center gap-2.5 px-3 py-2 rounded-xl text-left transition-colors hover:bg-white/5 ${pastLength === history.past.length ? 'bg-indigo-500/15 border border-indigo-500/30' : 'border border-transparent'} ${applied ? '' : 'opacity-40'}`}
+          >
+            {TYPE_ICONS[op.type]}
+            <span className="flex-1 text-[10px] font-bold text-slate-300 truncate">{op.label}</span>
+            <span className="text-[8px] font-mono text-slate-600">{formatTime(op.timestamp)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
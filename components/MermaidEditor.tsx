@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { highlightMermaidLine, TokenKind } from '../services/mermaidHighlight';
+
+interface MermaidEditorProps {
+  value: string;
+  onChange: (code: string) => void;
+  errorLine?: number;
+  debounceMs?: number;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  comment: 'text-slate-600 italic',
+  keyword: 'text-pink-400 font-bold',
+  arrow: 'text-sky-400',
+  string: 'text-emerald-300',
+  label: 'text-amber-200',
+  text: 'text-indigo-200/90'
+};
+
+const LINE_CLASS = 'h-[18px] leading-[18px]';
+
+/**
+ * 卡片内的 Mermaid 源码编辑器：透明 textarea 叠在高亮层之上。
+ * 输入先写入本地草稿，停顿 debounceMs 后再提交，驱动预览重新渲染并记入历史；
+ * 外部变更（撤销、AI 修改）会覆盖草稿。
+ */
+const MermaidEditor: React.FC<MermaidEditorProps> = ({ value, onChange, errorLine, debounceMs = 400 }) => {
+  const [draft, setDraft] = useState(value);
+  const lastEmittedRef = useRef(value);
+  const timerRef = useRef<number | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const draftRef = useRef(draft);
+  draftRef.current = draft;
+
+  useEffect(() => {
+    if (value !== lastEmittedRef.current) {
+      lastEmittedRef.current = value;
+      setDraft(value);
+    }
+  }, [value]);
+
+  const flush = () => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (draftRef.current !== lastEmittedRef.current) {
+      lastEmittedRef.current = draftRef.current;
+      onChangeRef.current(draftRef.current);
+    }
+  };
+
+  // 关闭编辑器时提交尚未落盘的草稿
+  useEffect(() => flush, []);
+
+  const update = (next: string) => {
+    setDraft(next);
+    draftRef.current = next;
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(flush, debounceMs);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // 撤销/重做交给全局历史：先提交草稿，让这次输入成为可撤销的一步
+    if ((e.ctrlKey || e.metaKey) && ['z', 'y'].includes(e.key.toLowerCase())) {
+      flush();
+      return;
+    }
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      const el = e.currentTarget;
+      const { selectionStart, selectionEnd } = el;
+      update(draft.slice(0, selectionStart) + '  ' + draft.slice(selectionEnd));
+      requestAnimationFrame(() => el.setSelectionRange(selectionStart + 2, selectionStart + 2));
+    }
+  };
+
+  const lines = draft.split('\n');
+
+  return (
+    <div
+      className="bg-black/50 rounded-2xl border border-white/5 w-full max-h-[400px] overflow-auto custom-scrollbar font-mono text-[11px]"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex min-w-full w-max py-4">
+        <div className="shrink-0 text-right select-none text-slate-600 pl-4 pr-3">
+          {lines.map((_, i) => (
+            <div key={i} className={`${LINE_CLASS} ${errorLine === i + 1 ? 'text-rose-400 font-bold' : ''}`}>{i + 1}</div>
+          ))}
+        </div>
+        <div className="relative flex-1 pr-6">
+          <div aria-hidden className="whitespace-pre pointer-events-none">
+            {lines.map((line, i) => (
+              <div key={i} className={`${LINE_CLASS} ${errorLine === i + 1 ? 'bg-rose-500/20' : ''}`}>
+                {highlightMermaidLine(line).map((token, j) => (
+                  <span key={j} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+                ))}
+                {line.length === 0 && ' '}
+              </div>
+            ))}
+          </div>
+          <textarea
+            value={draft}
+            onChange={(e) => update(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={flush}
+            spellCheck={false}
+            wrap="off"
+            className="absolute inset-0 w-full h-full resize-none overflow-hidden bg-transparent text-transparent caret-indigo-300 outline-none whitespace-pre leading-[18px] p-0 border-none selection:bg-indigo-500/30"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MermaidEditor;
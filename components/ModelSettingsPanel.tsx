@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Cpu, X, RotateCcw } from 'lucide-react';
+import {
+  AGENT_TASKS, AgentTask, DEFAULT_MODELS, LLMSettings, PROVIDER_LABELS, ProviderKind, createDefaultSettings
+} from '../services/llmProvider';
+
+interface ModelSettingsPanelProps {
+  settings: LLMSettings;
+  onSave: (settings: LLMSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+const PROVIDERS = Object.keys(PROVIDER_LABELS) as ProviderKind[];
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-[11px] text-slate-200 outline-none focus:border-indigo-500/50 placeholder:text-slate-600';
+const labelClass = 'text-[9px] font-black uppercase tracking-widest text-slate-500';
+
+/**
+ * 模型设置：配置服务商凭据，并为每个智能体单独选择服务商与模型
+ */
+const ModelSettingsPanel: React.FC<ModelSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LLMSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const usedProviders = new Set(AGENT_TASKS.map(t => draft.agents[t.id].provider));
+
+  const updateAgent = (task: AgentTask, provider: ProviderKind, model?: string) =>
+    setDraft(prev => ({
+      ...prev,
+      // 切换服务商时换成该服务商的默认模型
+      agents: { ...prev.agents, [task]: { provider, model: model ?? DEFAULT_MODELS[provider][task] } }
+    }));
+
+  const applyToAll = (provider: ProviderKind) =>
+    setDraft(prev => ({
+      ...prev,
+      agents: Object.fromEntries(AGENT_TASKS.map(t => [t.id, { provider, model: DEFAULT_MODELS[provider][t.id] }])) as LLMSettings['agents']
+    }));
+
+  const submit = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/60 backdrop-blur-sm" data-export-ignore onMouseDown={(e) => e.stopPropagation()}>
+      <div className="w-[620px] max-h-[90vh] overflow-y-auto custom-scrollbar bg-slate-900 border border-slate-700 rounded-3xl shadow-2xl p-7 space-y-6 animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Cpu className="w-5 h-5 text-indigo-400" />
+            <h2 className="text-sm font-black tracking-widest uppercase text-slate-100">模型设置</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-white/5 text-slate-500"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="space-y-2">
+          <span className={labelClass}>全部切换为</span>
+          <div className="flex gap-2">
+            {PROVIDERS.map(p => (
+              <button key={p} onClick={() => applyToAll(p)} className="flex-1 py-2 rounded-xl text-[10px] font-bold border border-slate-800 text-slate-400 hover:border-indigo-500/40 hover:text-indigo-200 transition-all">{PROVIDER_LABELS[p]}</button>
+            ))}
+          </div>
+        </div>
+
+        {usedProviders.has('gemini') && (
+          <div className="space-y-2">
+            <span className={labelClass}>Gemini API Key</span>
+            <input type="password" value={draft.gemini.apiKey} onChange={(e) => setDraft(prev => ({ ...prev, gemini: { apiKey: e.target.value } }))} placeholder="默认读取构建时的 GEMINI_API_KEY" className={inputClass} />
+          </div>
+        )}
+        {usedProviders.has('openai') && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <span className={labelClass}>接口地址</span>
+              <input value={draft.openai.baseUrl} onChange={(e) => setDraft(prev => ({ ...prev, openai: { ...prev.openai, baseUrl: e.target.value } }))} placeholder="http://localhost:11434/v1" className={inputClass} />
+            </div>
+            <div className="space-y-2">
+              <span className={labelClass}>API Key（可选）</span>
+              <input type="password" value={draft.openai.apiKey} onChange={(e) => setDraft(prev => ({ ...prev, openai: { ...prev.openai, apiKey: e.target.value } }))} placeholder="本地服务通常无需填写" className={inputClass} />
+            </div>
+          </div>
+        )}
+        {usedProviders.has('mock') && (
+          <p className="text-[10px] text-slate-500 leading-relaxed">Mock 不访问网络，根据输入返回固定的示例结果，适合离线演示与可复现测试。</p>
+        )}
+
+        <div className="space-y-2">
+          <span className={labelClass}>智能体模型</span>
+          <div className="space-y-1.5">
+            {AGENT_TASKS.map(task => {
+              const config = draft.agents[task.id];
+              return (
+                <div key={task.id} className="flex items-center gap-3 p-3 rounded-2xl bg-slate-950/40 border border-white/5">
+                  <div className="w-32 shrink-0">
+                    <div className="text-[11px] font-bold text-slate-200">{task.label}</div>
+                    <div className="text-[9px] text-slate-500 truncate" title={task.desc}>{task.desc}</div>
+                  </div>
+                  <select
+                    value={config.provider}
+                    onChange={(e) => updateAgent(task.id, e.target.value as ProviderKind)}
+                    className="w-36 shrink-0 bg-slate-950 border border-slate-800 rounded-xl px-2 py-2 text-[10px] text-slate-300 outline-none focus:border-indigo-500/50"
+                  >
+                    {PROVIDERS.map(p => <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>)}
+                  </select>
+                  <input
+                    value={config.model}
+                    disabled={config.provider === 'mock'}
+                    onChange={(e) => updateAgent(task.id, config.provider, e.target.value)}
+                    placeholder="模型名称"
+                    className={`${inputClass} font-mono disabled:opacity-40`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {error && <div className="text-[10px] text-rose-400 bg-rose-500/10 border border-rose-500/20 rounded-xl px-3 py-2">{error}</div>}
+
+        <div className="flex gap-2">
+          <button onClick={() => setDraft(createDefaultSettings())} className="flex items-center gap-1.5 px-4 py-3 rounded-2xl text-[11px] font-bold text-slate-400 hover:bg-white/5 transition-colors">
+            <RotateCcw className="w-3.5 h-3.5" />恢复默认
+          </button>
+          <button onClick={submit} disabled={isSaving} className="flex-1 py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-black transition-all disabled:opacity-40">
+            {isSaving ? '保存中...' : '保存设置'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsPanel;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { MessageSquare, Edit3, Trash2, Layers, X, Loader2, CornerDownLeft, Square } from 'lucide-react';
+
+interface NodeActionPopoverProps {
+  label: string;
+  canEdit: boolean; // 节点无法映射回源码时只能提问与下钻
+  busy: boolean;
+  onAsk: (question: string) => void;
+  onRename: (label: string) => void;
+  onDelete: () => void;
+  onDrillDown: () => void;
+  onStop?: () => void; // 仅下钻进行中时提供，用于停止
+  onClose: () => void;
+}
+
+type Mode = 'menu' | 'ask' | 'rename';
+
+/**
+ * 图表内节点的操作浮层：向 AI 提问、重命名、删除与下钻生成子图
+ */
+const NodeActionPopover: React.FC<NodeActionPopoverProps> = ({
+  label, canEdit, busy, onAsk, onRename, onDelete, onDrillDown, onStop, onClose
+}) => {
+  const [mode, setMode] = useState<Mode>('menu');
+  const [text, setText] = useState('');
+
+  const open = (next: Mode) => {
+    setMode(next);
+    setText(next === 'rename' ? label : '');
+  };
+
+  const submit = () => {
+    const value = text.trim();
+    if (!value) return;
+    if (mode === 'ask') onAsk(value);
+    if (mode === 'rename' && value !== label) onRename(value);
+    setMode('menu');
+  };
+
+  const actionClass = 'flex items-center gap-2 px-3 py-2 rounded-xl text-[10px] font-bold transition-colors hover:bg-white/5 disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <div
+      data-export-ignore
+      className="absolute top-3 left-3 z-20 w-64 bg-slate-950/95 border border-indigo-500/30 rounded-2xl shadow-2xl backdrop-blur-xl animate-in fade-in duration-200"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="px-4 py-3 flex items-center gap-2 border-b border-white/5">
+        <span className="flex-1 text-[11px] font-black text-indigo-200 truncate" title={label}>{label}</span>
+        {busy && (
+          <>
+            <Loader2 className="w-3 h-3 text-indigo-400 animate-spin" />
+            {onStop && <button onClick={onStop} className="p-1 rounded-lg hover:bg-white/5 text-rose-400" title="停止"><Square className="w-3 h-3 fill-current" /></button>}
+          </>
+        )}
+        <button onClick={onClose} className="p-1 rounded-lg hover:bg-white/5 text-slate-500"><X className="w-3 h-3" /></button>
+      </div>
+      {mode === 'menu' ? (
+        <div className="p-2 grid grid-cols-2 gap-1">
+          <button disabled={busy} onClick={() => open('ask')} className={`${actionClass} text-sky-300`}><MessageSquare className="w-3.5 h-3.5" />询问 AI</button>
+          <button disabled={busy} onClick={onDrillDown} className={`${actionClass} text-emerald-300`}><Layers className="w-3.5 h-3.5" />下钻</button>
+          <button disabled={busy || !canEdit} onClick={() => open('rename')} className={`${actionClass} text-slate-300`}><Edit3 className="w-3.5 h-3.5" />重命名</button>
+          <button disabled={busy || !canEdit} onClick={onDelete} className={`${actionClass} text-rose-400`}><Trash2 className="w-3.5 h-3.5" />删除</button>
+        </div>
+      ) : (
+        <div className="p-3 flex items-center gap-2">
+          <input
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submit();
+              if (e.key === 'Escape') { e.stopPropagation(); setMode('menu'); }
+            }}
+            placeholder={mode === 'ask' ? '关于该节点的问题...' : '新名称'}
+            className="flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded-xl px-3 py-2 text-[11px] outline-none focus:border-indigo-500/50"
+          />
+          <button onClick={submit} className="p-2 rounded-xl bg-indigo-600 text-white hover:bg-indigo-500"><CornerDownLeft className="w-3 h-3" /></button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NodeActionPopover;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import {
+  CheckCircle2, XCircle, ChevronUp, ChevronDown, IndentIncrease, IndentDecrease,
+  Plus, Trash2, AlignLeft, RefreshCw
+} from 'lucide-react';
+import { DiagramType, PlanNode } from '../types';
+import {
+  PlanTreeNode, buildPlanTree, updatePlanNode, addPlanNode, removePlanNode,
+  movePlanNode, indentPlanNode, outdentPlanNode
+} from '../services/planTree';
+
+interface PlanEditorProps {
+  plan: PlanNode[];
+  hierarchy?: string[];
+  // coalesceKey 用于合并连续输入（标题、描述）为一个撤销步骤
+  onChange: (plan: PlanNode[], label: string, coalesceKey?: string) => void;
+  customHierarchy?: string;
+  canReplan: boolean; // 缺少原始输入（旧项目中的规划消息）时无法重新规划
+  busy: boolean;
+  onReplan: (customHierarchy: string) => void;
+}
+
+const TYPE_OPTIONS: { value: DiagramType; label: string }[] = [
+  { value: DiagramType.FLOWCHART, label: '流程图' },
+  { value: DiagramType.SEQUENCE, label: '时序图' },
+  { value: DiagramType.MINDMAP, label: '思维导图' },
+  { value: DiagramType.GANTT, label: '甘特图' }
+];
+
+/**
+ * 规划树编辑器：在生成前调整模块的标题、描述、图表类型、顺序与层级
+ */
+const PlanEditor: React.FC<PlanEditorProps> = ({ plan, hierarchy = [], onChange, customHierarchy = '', canReplan, busy, onReplan }) => {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [hierarchyRule, setHierarchyRule] = useState(customHierarchy);
+  const tree = buildPlanTree(plan);
+
+  const toggleExpanded = (id: string) => setExpandedIds(prev => {
+    const next = new Set(prev);
+    next.has(id) ? next.delete(id) : next.add(id);
+    return next;
+  });
+
+  const addNode = (parentId?: string) => {
+    const { plan: next, node } = addPlanNode(plan, parentId);
+    onChange(next, '添加方案模块');
+    setExpandedIds(prev => new Set(prev).add(node.id));
+  };
+
+  const iconButton = 'p-1 rounded-md text-slate-500 hover:text-slate-200 hover:bg-white/5 transition-colors disabled:opacity-20 disabled:pointer-events-none';
+
+  const renderNode = (item: PlanTreeNode, index: number, siblings: PlanTreeNode[]): React.ReactNode => {
+    const { node, depth } = item;
+    const expanded = expandedIds.has(node.id);
+    const levelName = hierarchy[depth];
+    return (
+      <div key={node.id}>
+        <div
+          className={`flex flex-col gap-2 p-3 bg-slate-900/60 rounded-2xl border border-white/5 group hover:border-indigo-500/40 transition-all ${node.selected ? '' : 'opacity-50'}`}
+          style={{ marginLeft: depth * 16 }}
+        >
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onChange(updatePlanNode(plan, node.id, { selected: !node.selected }), `${node.selected ? '取消' : '选择'}方案模块：${node.title}`)}
+              className={`p-1 rounded-md transition-colors ${node.selected ? 'text-indigo-400 bg-indigo-500/15' : 'text-slate-600 hover:text-slate-400'}`}
+            >
+              {node.selected ? <CheckCircle2 className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+            </button>
+            <div className="flex-1 min-w-0">
+              <input
+                className="bg-transparent font-bold truncate text-slate-200 focus:outline-none border-b border-transparent focus:border-indigo-500/50 w-full"
+                value={node.title}
+                onChange={(e) => onChange(updatePlanNode(plan, node.id, { title: e.target.value }), `重命名方案模块：${e.target.value}`, `plan-title:${node.id}`)}
+              />
+              {levelName && <span className="text-[8px] font-black uppercase tracking-widest text-slate-600">{levelName}</span>}
+            </div>
+            <button onClick={() => toggleExpanded(node.id)} title="描述" className={`${iconButton} ${expanded ? 'text-indigo-300' : ''}`}>
+              <AlignLeft className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="flex items-center gap-1">
+            <select
+              value={node.suggestedType}
+              onChange={(e) => onChange(updatePlanNode(plan, node.id, { suggestedType: e.target.value as DiagramType }), `修改图表类型：${node.title}`)}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-[10px] text-slate-300 outline-none focus:border-indigo-500/50"
+            >
+              {TYPE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <div className="flex-1" />
+            <button disabled={index === 0} onClick={() => onChange(movePlanNode(plan, node.id, 'up'), `上移方案模块：${node.title}`)} title="上移" className={iconButton}><ChevronUp className="w-3.5 h-3.5" /></button>
+            <button disabled={index === siblings.length - 1} onClick={() => onChange(movePlanNode(plan, node.id, 'down'), `下移方案模块：${node.title}`)} title="下移" className={iconButton}><ChevronDown className="w-3.5 h-3.5" /></button>
+            <button disabled={depth === 0} onClick={() => onChange(outdentPlanNode(plan, node.id), `提升方案模块：${node.title}`)} title="提升一级" className={iconButton}><IndentDecrease className="w-3.5 h-3.5" /></button>
+            <button disabled={index === 0} onClick={() => onChange(indentPlanNode(plan, node.id), `嵌套方案模块：${node.title}`)} title="嵌套到上一个模块下" className={iconButton}><IndentIncrease className="w-3.5 h-3.5" /></button>
+            <button onClick={() => addNode(node.id)} title="添加子模块" className={iconButton}><Plus className="w-3.5 h-3.5" /></button>
+            <button onClick={() => onChange(removePlanNode(plan, node.id), `删除方案模块：${node.title}`)} title="删除（含子模块）" className={`${iconButton} hover:text-rose-400`}><Trash2 className="w-3.5 h-3.5" /></button>
+          </div>
+          {expanded && (
+            <textarea
+              value={node.description}
+              onChange={(e) => onChange(updatePlanNode(plan, node.id, { description: e.target.value }), `修改方案描述：${node.title}`, `plan-desc:${node.id}`)}
+              placeholder="模块描述，将作为绘图智能体的生成要求"
+              rows={3}
+              className="w-full bg-slate-950/60 border border-slate-800 rounded-xl px-3 py-2 text-[11px] text-slate-300 outline-none focus:border-indigo-500/50 resize-none custom-scrollbar"
+            />
+          )}
+        </div>
+        {item.children.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {item.children.map((child, i) => renderNode(child, i, item.children))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          value={hierarchyRule}
+          onChange={(e) => setHierarchyRule(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && canReplan && !busy) onReplan(hierarchyRule.trim()); }}
+          placeholder={hierarchy.length > 0 ? `层级规则，当前：${hierarchy.join(' > ')}` : '层级规则，如：业务域 > 服务 > 接口'}
+          className="flex-1 min-w-0 bg-slate-900/60 border border-slate-800 rounded-xl px-3 py-2 text-[10px] text-slate-300 outline-none focus:border-indigo-500/50"
+        />
+        <button
+          disabled={!canReplan || busy}
+          onClick={() => onReplan(hierarchyRule.trim())}
+          title="按层级规则重新规划"
+          className="flex items-center gap-1 px-3 py-2 rounded-xl bg-slate-900/60 border border-slate-800 text-[10px] font-bold text-slate-400 hover:text-indigo-300 hover:border-indigo-500/40 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+        >
+          <RefreshCw className={`w-3 h-3 ${busy ? 'animate-spin' : ''}`} />重新规划
+        </button>
+      </div>
+      <div className="space-y-2 max-h-96 overflow-y-auto pr-2 custom-scrollbar">
+        {tree.map((item, i) => renderNode(item, i, tree))}
+      </div>
+      <button
+        onClick={() => addNode()}
+        className="w-full py-2 rounded-2xl border border-dashed border-slate-700 text-[10px] font-bold text-slate-500 hover:text-indigo-300 hover:border-indigo-500/40 flex items-center justify-center gap-1.5 transition-colors"
+      >
+        <Plus className="w-3 h-3" />添加顶层模块
+      </button>
+    </div>
+  );
+};
+
+export default PlanEditor;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Copy, FolderKanban, Pencil, Plus, Trash2, Check } from 'lucide-react';
+import { ProjectSummary } from '../services/workspaceStore';
+
+interface ProjectSwitcherProps {
+  projects: ProjectSummary[];
+  activeId: string | null;
+  isSaving?: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects, activeId, isSaving, onSwitch, onCreate, onRename, onDuplicate, onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const active = projects.find(p => p.id === activeId);
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2.5 bg-slate-950/60 border border-slate-800 rounded-2xl hover:border-indigo-500/40 transition-all"
+      >
+        <div className="flex items-center gap-2.5 min-w-0">
+          <FolderKanban className="w-3.5 h-3.5 text-sky-400 shrink-0" />
+          <span className="text-[11px] font-bold text-slate-200 truncate">{active?.name || '加载工作区...'}</span>
+          <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${isSaving ? 'bg-amber-400 animate-pulse' : 'bg-emerald-500'}`} title={isSaving ? '保存中' : '已自动保存'} />
+        </div>
+        {isOpen ? <ChevronUp className="w-3.5 h-3.5 text-slate-500" /> : <ChevronDown className="w-3.5 h-3.5 text-slate-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 right-0 mt-2 bg-slate-900/95 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden z-[120] backdrop-blur-xl animate-in slide-in-from-top-2 duration-200">
+          <div className="max-h-72 overflow-y-auto custom-scrollbar">
+            {projects.map(p => (
+              <div key={p.id} className={`group flex items-center gap-2 px-4 py-3 border-b border-white/5 ${p.id === activeId ? 'bg-indigo-500/10' : 'hover:bg-white/5'}`}>
+                {editingId === p.id ? (
+                  <input
+                    autoFocus value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                    onBlur={commitRename}
+                    className="flex-1 bg-slate-950 border border-indigo-500/50 rounded-lg px-2 py-1 text-[11px] outline-none"
+                  />
+                ) : (
+                  <button onClick={() => { onSwitch(p.id); setIsOpen(false); }} className="flex-1 min-w-0 text-left">
+                    <p className={`text-[11px] font-bold truncate ${p.id === activeId ? 'text-indigo-300' : 'text-slate-300'}`}>{p.name}</p>
+                    <p className="text-[9px] text-slate-500 font-mono">{p.elementCount} 模块 · {new Date(p.updatedAt).toLocaleString([], { hour12: false })}</p>
+                  </button>
+                )}
+                {editingId === p.id ? (
+                  <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="p-1.5 text-emerald-400 hover:bg-white/10 rounded-lg"><Check className="w-3 h-3" /></button>
+                ) : (
+                  <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => { setEditingId(p.id); setDraftName(p.name); }} className="p-1.5 text-slate-500 hover:text-white hover:bg-white/10 rounded-lg" title="重命名"><Pencil className="w-3 h-3" /></button>
+                    <button onClick={() => onDuplicate(p.id)} className="p-1.5 text-slate-500 hover:text-white hover:bg-white/10 rounded-lg" title="复制"><Copy className="w-3 h-3" /></button>
+                    <button onClick={() => onDelete(p.id)} disabled={projects.length <= 1} className="p-1.5 text-slate-500 hover:text-rose-400 hover:bg-white/10 rounded-lg disabled:opacity-20" title="删除"><Trash2 className="w-3 h-3" /></button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          <button onClick={() => { onCreate(); setIsOpen(false); }} className="w-full flex items-center gap-2 px-4 py-3 text-[11px] font-bold text-sky-400 hover:bg-white/5 transition-colors">
+            <Plus className="w-3.5 h-3.5" /> 新建工程
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
@@ -0,0 +1,29 @@
+import React, { useEffect, useState } from 'react';
+import { renderManager } from '../services/renderManager';
+
+/**
+ * 侧边栏渲染指标：自行订阅渲染调度器，避免每次渲染完成都触发整个画布重绘
+ */
+const RenderMetricsStat: React.FC = () => {
+  const [metrics, setMetrics] = useState(() => renderManager.getMetrics());
+
+  useEffect(() => renderManager.subscribe(setMetrics), []);
+
+  const lookups = metrics.cacheHits + metrics.cacheMisses;
+  const hitRate = lookups > 0 ? Math.round((metrics.cacheHits / lookups) * 100) : 0;
+  const cacheMb = (metrics.cacheBytes / (1024 * 1024)).toFixed(1);
+
+  return (
+    <div
+      className="flex flex-col items-center"
+      title={`平均 ${metrics.avgRenderMs.toFixed(0)}ms · 最长 ${metrics.maxRenderMs.toFixed(0)}ms · 缓存命中 ${hitRate}% · ${metrics.cacheEntries} 项 / ${cacheMb}MB · 已取消 ${metrics.cancelled} · 淘汰 ${metrics.evictions}`}
+    >
+      <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest">Render</span>
+      <span className="text-xs font-mono font-bold text-pink-400">
+        {metrics.avgRenderMs.toFixed(0)}ms{metrics.queueLength > 0 ? ` · ${metrics.queueLength}` : ''}
+      </span>
+    </div>
+  );
+};
+
+export default RenderMetricsStat;
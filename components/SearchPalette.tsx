@@ -0,0 +1,91 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, LayoutGrid, Circle, StickyNote, Link as LinkIcon, MessageSquare, CornerDownLeft } from 'lucide-react';
+import { CanvasElement, ChatMessage, Connection } from '../types';
+import { SearchHit, SearchHitKind, searchWorkspace } from '../services/searchIndex';
+
+interface SearchPaletteProps {
+  elements: CanvasElement[];
+  connections: Connection[];
+  messages: ChatMessage[];
+  onSelect: (hit: SearchHit) => void;
+  onClose: () => void;
+}
+
+const GROUP_META: Record<SearchHitKind, { label: string; icon: React.ReactNode }> = {
+  card: { label: '模块', icon: <LayoutGrid className="w-3.5 h-3.5 text-indigo-400" /> },
+  node: { label: '图表节点', icon: <Circle className="w-3.5 h-3.5 text-sky-400" /> },
+  note: { label: '笔记', icon: <StickyNote className="w-3.5 h-3.5 text-yellow-400" /> },
+  connection: { label: '连线', icon: <LinkIcon className="w-3.5 h-3.5 text-pink-400" /> },
+  message: { label: '对话记录', icon: <MessageSquare className="w-3.5 h-3.5 text-emerald-400" /> }
+};
+
+/**
+ * Ctrl+K 搜索面板：结果按类型分组，方向键选择、回车跳转
+ */
+const SearchPalette: React.FC<SearchPaletteProps> = ({ elements, connections, messages, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const groups = useMemo(() => searchWorkspace(query, { elements, connections, messages }), [query, elements, connections, messages]);
+  const flatHits = useMemo(() => groups.flatMap(g => g.hits), [groups]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') { e.preventDefault(); onClose(); }
+    if (flatHits.length === 0) return;
+    if (e.key === 'ArrowDown') { e.preventDefault(); setActiveIndex(i => (i + 1) % flatHits.length); }
+    if (e.key === 'ArrowUp') { e.preventDefault(); setActiveIndex(i => (i - 1 + flatHits.length) % flatHits.length); }
+    if (e.key === 'Enter') { e.preventDefault(); onSelect(flatHits[activeIndex]); }
+  };
+
+  return (
+    <div data-export-ignore className="fixed inset-0 z-[300] flex items-start justify-center pt-[12vh] bg-black/50 backdrop-blur-sm animate-in fade-in duration-200" onMouseDown={onClose}>
+      <div className="w-[600px] max-w-[90vw] bg-slate-900/95 border border-slate-700 rounded-3xl shadow-[0_30px_80px_rgba(0,0,0,0.8)] overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="px-6 py-5 flex items-center gap-4 border-b border-white/5">
+          <Search className="w-4 h-4 text-slate-500" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="搜索模块、节点、笔记、连线与对话..."
+            className="flex-1 bg-transparent text-sm text-white outline-none placeholder:text-slate-600"
+          />
+          <span className="text-[9px] font-mono text-slate-600 border border-slate-700 rounded px-1.5 py-0.5">ESC</span>
+        </div>
+        <div className="max-h-[50vh] overflow-y-auto custom-scrollbar p-2">
+          {query.trim() && flatHits.length === 0 && (
+            <div className="px-4 py-10 text-center text-[11px] text-slate-500">没有找到与 “{query}” 相关的内容</div>
+          )}
+          {groups.map(group => (
+            <div key={group.kind} className="mb-2">
+              <div className="px-4 pt-3 pb-1.5 flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-500">
+                {GROUP_META[group.kind].icon}{GROUP_META[group.kind].label}
+              </div>
+              {group.hits.map(hit => {
+                const index = flatHits.indexOf(hit);
+                return (
+                  <button
+                    key={hit.key}
+                    onClick={() => onSelect(hit)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-xl text-left transition-colors ${index === activeIndex ? 'bg-indigo-600/80' : 'hover:bg-white/5'}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs font-bold text-white truncate">{hit.title}</div>
+                      {hit.snippet && <div className="text-[10px] text-slate-400 truncate">{hit.snippet}</div>}
+                    </div>
+                    {index === activeIndex && <CornerDownLeft className="w-3.5 h-3.5 text-indigo-200 shrink-0" />}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
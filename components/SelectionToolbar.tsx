@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import {
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+  AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalSpaceAround, AlignVerticalSpaceAround,
+  Palette, ShieldCheck, Camera, Trash2, X
+} from 'lucide-react';
+import { THEMES } from '../types';
+import { AlignMode, DistributeAxis } from '../services/alignment';
+
+interface SelectionToolbarProps {
+  count: number;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onApplyTheme: (themeId: string) => void;
+  onReview: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const ALIGN_ACTIONS: { id: AlignMode; icon: React.ReactNode; tooltip: string }[] = [
+  { id: 'left', icon: <AlignStartVertical className="w-4 h-4" />, tooltip: '左对齐' },
+  { id: 'hcenter', icon: <AlignCenterVertical className="w-4 h-4" />, tooltip: '水平居中' },
+  { id: 'right', icon: <AlignEndVertical className="w-4 h-4" />, tooltip: '右对齐' },
+  { id: 'top', icon: <AlignStartHorizontal className="w-4 h-4" />, tooltip: '顶部对齐' },
+  { id: 'vcenter', icon: <AlignCenterHorizontal className="w-4 h-4" />, tooltip: '垂直居中' },
+  { id: 'bottom', icon: <AlignEndHorizontal className="w-4 h-4" />, tooltip: '底部对齐' }
+];
+
+/**
+ * 多选时浮现在画布底部的批量操作栏
+ */
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  count, onAlign, onDistribute, onApplyTheme, onReview, onExport, onDelete, onClear
+}) => {
+  const [showThemes, setShowThemes] = useState(false);
+  const canAlign = count >= 2;
+  const canDistribute = count >= 3;
+
+  return (
+    <div
+      data-export-ignore
+      className="absolute bottom-28 left-1/2 -translate-x-1/2 z-[100] flex items-center gap-2 px-3 py-2 bg-slate-900/95 border border-sky-500/30 rounded-2xl shadow-2xl backdrop-blur-xl animate-in slide-in-from-bottom-2 duration-300"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <span className="px-2 text-[10px] font-black tracking-widest text-sky-300 whitespace-nowrap">已选 {count} 个模块</span>
+
+      <div className={`flex items-center gap-0.5 px-1 py-0.5 bg-black/30 rounded-xl border border-white/5 ${canAlign ? '' : 'opacity-30 pointer-events-none'}`}>
+        {ALIGN_ACTIONS.map(a => (
+          <button key={a.id} onClick={() => onAlign(a.id)} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-colors" title={a.tooltip}>{a.icon}</button>
+        ))}
+      </div>
+
+      <div className={`flex items-center gap-0.5 px-1 py-0.5 bg-black/30 rounded-xl border border-white/5 ${canDistribute ? '' : 'opacity-30 pointer-events-none'}`}>
+        <button onClick={() => onDistribute('horizontal')} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-colors" title="水平等距分布"><AlignHorizontalSpaceAround className="w-4 h-4" /></button>
+        <button onClick={() => onDistribute('vertical')} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-colors" title="垂直等距分布"><AlignVerticalSpaceAround className="w-4 h-4" /></button>
+      </div>
+
+      <div className="relative">
+        <button onClick={() => setShowThemes(!showThemes)} className={`p-2 rounded-lg hover:bg-white/5 transition-colors ${showThemes ? 'text-pink-300' : 'text-pink-400'}`} title="应用主题"><Palette className="w-4 h-4" /></button>
+        {showThemes && (
+          <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-44 bg-slate-950 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden">
+            {THEMES.map(t => (
+              <button key={t.id} onClick={() => { setShowThemes(false); onApplyTheme(t.id); }} className="w-full flex items-center gap-2.5 px-4 py-2.5 text-[11px] font-bold text-slate-300 hover:bg-white/5 transition-colors text-left">
+                <span className="w-3 h-3 rounded-full border border-white/20" style={{ backgroundColor: t.primary }} />
+                {t.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <button onClick={onReview} className="p-2 rounded-lg text-emerald-400 hover:bg-white/5 transition-colors" title="审计选中模块"><ShieldCheck className="w-4 h-4" /></button>
+      <button onClick={onExport} className="p-2 rounded-lg text-emerald-400 hover:bg-white/5 transition-colors" title="导出选中模块"><Camera className="w-4 h-4" /></button>
+      <button onClick={onDelete} className="p-2 rounded-lg text-rose-400 hover:bg-rose-500/10 transition-colors" title="删除选中模块 (Delete)"><Trash2 className="w-4 h-4" /></button>
+      <div className="w-px h-5 bg-white/10" />
+      <button onClick={onClear} className="p-2 rounded-lg text-slate-500 hover:bg-white/5 transition-colors" title="取消选择 (Esc)"><X className="w-4 h-4" /></button>
+    </div>
+  );
+};
+
+export default SelectionToolbar;
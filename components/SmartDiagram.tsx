@@ -1,21 +1,47 @@
 
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { renderManager } from '../services/renderManager';
+import { renderManager, RenderCancelledError, MermaidSyntaxError } from '../services/renderManager';
+import { describeDiagramError } from '../services/diagramRepair';
+import { DiagramError } from '../types';
 import { Loader2, AlertTriangle } from 'lucide-react';
 
+export interface DiagramNodeHit {
+  index: number;  // 在 SVG 节点列表中的序号
+  domId: string;  // Mermaid 生成的元素 id，如 flowchart-A-12
+  label: string;
+}
+
+// 可点击的节点：流程图/类图/状态图节点、思维导图节点、ER 实体
+const NODE_SELECTOR = '.node, .mermaid-node, .mindmap-node, g[id^="entity-"]';
+
 interface SmartDiagramProps {
   id: string;
   code: string;
   themeVars?: any;
-  onNodeClick?: (label: string) => void;
+  onNodeClick?: (id: string, hit: DiagramNodeHit) => void;
+  selectedNodeIndex?: number; // 当前选中节点在 SVG 节点列表中的序号，用于高亮
+  focusNodeLabel?: string;    // 搜索跳转时按显示文本高亮的节点
   isVisible: boolean; // 由父组件下发的视口可见性状态
+  priority?: number;  // 渲染优先级，越小越先渲染
+  onError?: (id: string, error: DiagramError | null) => void; // 每次渲染结束后上报语法错误（成功时为 null）
 }
 
-const SmartDiagram: React.FC<SmartDiagramProps> = ({ id, code, themeVars, onNodeClick, isVisible }) => {
+const SmartDiagram: React.FC<SmartDiagramProps> = ({ id, code, themeVars, onNodeClick, selectedNodeIndex, focusNodeLabel, isVisible, priority, onError }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [svgContent, setSvgContent] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<DiagramError | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // 最近一次渲染的高度，休眠占位沿用该高度，避免卡片尺寸跳变影响连线与布局
+  const lastHeightRef = useRef<number | null>(null);
+  // 优先级随平移频繁变化，放在 ref 中避免触发重新渲染
+  const priorityRef = useRef(priority);
+  priorityRef.current = priority;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (priority !== undefined) renderManager.setPriority(id, priority);
+  }, [id, priority]);
 
   // 渲染主逻辑
   useEffect(() => {
@@ -25,20 +51,31 @@ const SmartDiagram: React.FC<SmartDiagramProps> = ({ id, code, themeVars, onNode
     const executeRender = async () => {
       setIsLoading(true);
       try {
-        const svg = await renderManager.render(id, code, themeVars);
+        const svg = await renderManager.render(id, code, themeVars, { priority: priorityRef.current });
         if (isMounted) {
           setSvgContent(svg);
           setError(null);
+          onErrorRef.current?.(id, null);
+        }
+      } catch (err: any) {
+        if (isMounted && !(err instanceof RenderCancelledError)) {
+          const next: DiagramError = err instanceof MermaidSyntaxError
+            ? { message: err.message, line: err.line }
+            : { message: String(err?.message ?? err) };
+          setError(next);
+          onErrorRef.current?.(id, next);
         }
-      } catch (err) {
-        if (isMounted) setError('Render failed');
       } finally {
         if (isMounted) setIsLoading(false);
       }
     };
 
     executeRender();
-    return () => { isMounted = false; };
+    // 卡片滚出视口、卸载或代码变更时，撤回尚未开始的渲染任务
+    return () => {
+      isMounted = false;
+      renderManager.cancel(id);
+    };
   }, [id, code, themeVars, isVisible]);
 
   // 交互逻辑注入
@@ -46,25 +83,43 @@ const SmartDiagram: React.FC<SmartDiagramProps> = ({ id, code, themeVars, onNode
     if (!svgContent || !containerRef.current) return;
     
     containerRef.current.innerHTML = svgContent;
+    lastHeightRef.current = Math.max(containerRef.current.offsetHeight, 150);
     const svgEl = containerRef.current.querySelector('svg');
     if (svgEl && onNodeClick) {
-      const nodes = svgEl.querySelectorAll('.node, .mermaid-node');
-      nodes.forEach(node => {
+      const nodes = svgEl.querySelectorAll(NODE_SELECTOR);
+      nodes.forEach((node, index) => {
         const el = node as HTMLElement;
         el.style.cursor = 'pointer';
         el.onclick = (e) => {
           e.stopPropagation();
           const labelText = el.querySelector('.nodeLabel, text')?.textContent || '';
-          onNodeClick(labelText.trim());
+          onNodeClick(id, { index, domId: el.id, label: labelText.trim() });
         };
       });
     }
-  }, [svgContent, onNodeClick]);
+  }, [svgContent, onNodeClick, isVisible]);
+
+  // 选中节点与搜索命中节点高亮
+  useEffect(() => {
+    if (!svgContent || !containerRef.current) return;
+    const focus = focusNodeLabel?.replace(/\s+/g, ' ').trim().toLowerCase();
+    const nodes = containerRef.current.querySelectorAll(NODE_SELECTOR);
+    nodes.forEach((node, index) => {
+      const el = node as HTMLElement;
+      const label = (el.querySelector('.nodeLabel, text')?.textContent || '').replace(/\s+/g, ' ').trim().toLowerCase();
+      el.style.filter = index === selectedNodeIndex
+        ? 'drop-shadow(0 0 6px rgba(129, 140, 248, 0.95))'
+        : focus && label === focus ? 'drop-shadow(0 0 8px rgba(251, 191, 36, 0.95))' : '';
+    });
+  }, [svgContent, selectedNodeIndex, focusNodeLabel, isVisible]);
 
   // 虚拟化状态下的轻量占位
   if (!isVisible) {
     return (
-      <div className="w-full min-h-[200px] flex items-center justify-center border border-dashed border-slate-800 rounded-xl bg-slate-900/20">
+      <div
+        className={`w-full flex items-center justify-center border border-dashed border-slate-800 rounded-xl bg-slate-900/20 ${lastHeightRef.current ? '' : 'min-h-[200px]'}`}
+        style={lastHeightRef.current ? { height: lastHeightRef.current } : undefined}
+      >
         <span className="text-[10px] text-slate-600 font-mono tracking-tighter uppercase">Off-screen hibernating...</span>
       </div>
     );
@@ -79,9 +134,12 @@ const SmartDiagram: React.FC<SmartDiagramProps> = ({ id, code, themeVars, onNode
       )}
       
       {error ? (
-        <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-xl flex items-center gap-3 text-rose-400">
-          <AlertTriangle className="w-4 h-4" />
-          <span className="text-[10px] font-mono">Invalid Mermaid Syntax</span>
+        <div className="w-full p-4 bg-rose-500/10 border border-rose-500/20 rounded-xl flex items-start gap-3 text-rose-400" title={error.message}>
+          <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+          <div className="flex flex-col gap-1 min-w-0">
+            <span className="text-[10px] font-black uppercase tracking-widest">Invalid Mermaid Syntax</span>
+            <span className="text-[10px] font-mono text-rose-300/80 break-words">{describeDiagramError(error)}</span>
+          </div>
         </div>
       ) : (
         <div ref={containerRef} className="mermaid-render-output w-full animate-in fade-in duration-700" />
@@ -0,0 +1,172 @@
+import { CategoryNode, DeconstructionPlan, DiagramType } from "../types";
+import { JsonSchema } from "./llmProvider";
+
+/**
+ * 智能体输出契约：每个智能体的结构化输出 Schema 与运行时校验。
+ * 校验失败抛出 AgentOutputError，其 message 会作为纠正提示发回模型重试，因此需具体指出哪里不符合要求
+ */
+export class AgentOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentOutputError';
+  }
+}
+
+export interface VisionResult {
+  title: string;
+  suggestedType: DiagramType;
+  mermaidCode: string;
+}
+
+export const MAX_RELATION_LABEL_LENGTH = 12;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+// 结构化输出不支持递归引用，按固定深度展开 subCategories
+export const MAX_PLAN_DEPTH = 3;
+const categoryNodeSchema = (depth: number): JsonSchema => ({
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    level: { type: 'integer' },
+    description: { type: 'string' },
+    suggestedType: { type: 'string', description: 'flowchart, sequenceDiagram, gantt, mindmap 之一' },
+    ...(depth > 1 ? { subCategories: { type: 'array', items: categoryNodeSchema(depth - 1) } } : {})
+  },
+  required: ['title', 'level', 'description', 'suggestedType']
+});
+
+export const PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    projectName: { type: 'string' },
+    hierarchy: { type: 'array', items: { type: 'string' } },
+    nodes: { type: 'array', items: categoryNodeSchema(MAX_PLAN_DEPTH) }
+  },
+  required: ['projectName', 'hierarchy', 'nodes']
+};
+
+export const VISION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    suggestedType: { type: 'string', description: 'flowchart, sequenceDiagram, gantt, mindmap 之一' },
+    mermaidCode: { type: 'string', description: '不含 ``` 围栏的 Mermaid 代码' }
+  },
+  required: ['title', 'suggestedType', 'mermaidCode']
+};
+
+export const RELATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    label: { type: 'string', description: `不超过 ${MAX_RELATION_LABEL_LENGTH} 个字的关系短词` }
+  },
+  required: ['label']
+};
+
+// 图表类型的常见写法（含中文名与 Mermaid 的别名）统一映射到 DiagramType；无法识别时按流程图处理
+const DIAGRAM_TYPE_ALIASES: [RegExp, DiagramType][] = [
+  [/^(flowchart|flow|graph|流程图?)$/, DiagramType.FLOWCHART],
+  [/^(sequence(diagram)?|时序图?|序列图)$/, DiagramType.SEQUENCE],
+  [/^(gantt|甘特图?)$/, DiagramType.GANTT],
+  [/^(mindmap|mind map|思维导图|脑图)$/, DiagramType.MINDMAP]
+];
+
+export const coerceDiagramType = (value: unknown): DiagramType => {
+  const key = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return DIAGRAM_TYPE_ALIASES.find(([pattern]) => pattern.test(key))?.[1] ?? DiagramType.FLOWCHART;
+};
+
+/**
+ * 解析 JSON 回复：容忍 ```json 围栏与前后的说明文字
+ */
+export const parseJsonResponse = (text: string): unknown => {
+  const body = text.replace(/```(?:json)?/g, '').trim();
+  const start = body.search(/[{[]/);
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  if (start === -1 || end < start) throw new AgentOutputError('回复中没有 JSON 对象');
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch (err) {
+    throw new AgentOutputError(`JSON 无法解析（${(err as Error).message}）`);
+  }
+};
+
+const parseCategoryNode = (raw: unknown, path: string, depth: number): CategoryNode => {
+  if (!isRecord(raw)) throw new AgentOutputError(`${path} 必须是对象`);
+  if (!isNonEmptyString(raw.title)) throw new AgentOutputError(`${path}.title 不能为空`);
+  if (raw.subCategories !== undefined && !Array.isArray(raw.subCategories)) throw new AgentOutputError(`${path}.subCategories 必须是数组`);
+  const children = (raw.subCategories as unknown[] | undefined) ?? [];
+  return {
+    title: raw.title.trim(),
+    // 层级缺失或非整数时按嵌套深度推断
+    level: Number.isInteger(raw.level) ? raw.level as number : depth + 1,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    suggestedType: coerceDiagramType(raw.suggestedType),
+    ...(children.length > 0
+      ? { subCategories: children.map((child, i) => parseCategoryNode(child, `${path}.subCategories[${i}]`, depth + 1)) }
+      : {})
+  };
+};
+
+export const parsePlan = (text: string): DeconstructionPlan => {
+  const raw = parseJsonResponse(text);
+  if (!isRecord(raw)) throw new AgentOutputError('根节点必须是对象');
+  if (!Array.isArray(raw.nodes) || raw.nodes.length === 0) throw new AgentOutputError('nodes 必须是非空数组');
+  return {
+    projectName: isNonEmptyString(raw.projectName) ? raw.projectName.trim() : '未命名工程',
+    hierarchy: Array.isArray(raw.hierarchy) ? raw.hierarchy.filter(isNonEmptyString) : [],
+    nodes: raw.nodes.map((node, i) => parseCategoryNode(node, `nodes[${i}]`, 0))
+  };
+};
+
+// Mermaid 支持的图表头；只校验头部，具体语法交给 Mermaid 解析与修复循环
+const MERMAID_HEADER = /^(flowchart|graph|sequenceDiagram|classDiagram|stateDiagram(-v2)?|erDiagram|gantt|pie|mindmap|journey|gitGraph|timeline|quadrantChart|requirementDiagram|sankey-beta|xychart-beta|block-beta|C4\w+)\b/;
+
+const firstMeaningfulLine = (code: string): string => {
+  const lines = code.split('\n').map(l => l.trim());
+  let i = 0;
+  if (lines[0] === '---') i = lines.indexOf('---', 1) + 1 || lines.length; // 跳过 frontmatter
+  return lines.slice(i).find(l => l && !l.startsWith('%%')) ?? '';
+};
+
+/**
+ * 解析代码回复：优先取 ```mermaid 代码块，否则把整段回复当作代码；首个有效行必须是 Mermaid 图表头
+ */
+export const parseMermaidResponse = (text: string): string => {
+  const match = text.match(/```(?:mermaid)?\s*([\s\S]*?)```/);
+  const code = (match ? match[1] : text).trim();
+  if (!code) throw new AgentOutputError('回复中没有 Mermaid 代码');
+  const header = firstMeaningfulLine(code);
+  if (!MERMAID_HEADER.test(header)) {
+    throw new AgentOutputError(`代码的第一行应为图表类型声明（如 flowchart TD），实际为「${header.slice(0, 40)}」`);
+  }
+  return code;
+};
+
+export const parseVisionResult = (text: string): VisionResult => {
+  const raw = parseJsonResponse(text);
+  if (!isRecord(raw)) throw new AgentOutputError('根节点必须是对象');
+  if (!isNonEmptyString(raw.mermaidCode)) throw new AgentOutputError('mermaidCode 不能为空');
+  return {
+    title: isNonEmptyString(raw.title) ? raw.title.trim() : '图片解构',
+    suggestedType: coerceDiagramType(raw.suggestedType),
+    mermaidCode: parseMermaidResponse(raw.mermaidCode)
+  };
+};
+
+export const parseRelationLabel = (text: string): string => {
+  const raw = parseJsonResponse(text);
+  if (!isRecord(raw) || !isNonEmptyString(raw.label)) throw new AgentOutputError('label 不能为空');
+  const label = raw.label.trim();
+  if (label.length > MAX_RELATION_LABEL_LENGTH) {
+    throw new AgentOutputError(`label「${label}」过长，需不超过 ${MAX_RELATION_LABEL_LENGTH} 个字`);
+  }
+  return label;
+};
+
+export const parseReport = (text: string): string => {
+  if (!text.trim()) throw new AgentOutputError('回复为空');
+  return text.trim();
+};
@@ -0,0 +1,76 @@
+import { CanvasElement } from "../types";
+import { CardSize, Point, getCardRect } from "./geometry";
+
+/**
+ * 多选卡片的对齐与等距分布。返回需要移动的卡片的新坐标，未移动的卡片不出现在结果中。
+ */
+export type AlignMode = 'left' | 'hcenter' | 'right' | 'top' | 'vcenter' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+const collectMoves = (elements: CanvasElement[], next: (el: CanvasElement) => Point): Record<string, Point> => {
+  const moves: Record<string, Point> = {};
+  elements.forEach(el => {
+    const p = next(el);
+    if (Math.abs(p.x - el.x) > 0.5 || Math.abs(p.y - el.y) > 0.5) moves[el.id] = p;
+  });
+  return moves;
+};
+
+export const alignElements = (
+  elements: CanvasElement[], sizes: Record<string, CardSize>, mode: AlignMode
+): Record<string, Point> => {
+  if (elements.length < 2) return {};
+  const rects = elements.map(el => getCardRect(el, sizes));
+  const minX = Math.min(...rects.map(r => r.x));
+  const maxX = Math.max(...rects.map(r => r.x + r.width));
+  const minY = Math.min(...rects.map(r => r.y));
+  const maxY = Math.max(...rects.map(r => r.y + r.height));
+
+  return collectMoves(elements, el => {
+    const r = getCardRect(el, sizes);
+    switch (mode) {
+      case 'left': return { x: minX, y: r.y };
+      case 'hcenter': return { x: (minX + maxX) / 2 - r.width / 2, y: r.y };
+      case 'right': return { x: maxX - r.width, y: r.y };
+      case 'top': return { x: r.x, y: minY };
+      case 'vcenter': return { x: r.x, y: (minY + maxY) / 2 - r.height / 2 };
+      case 'bottom': return { x: r.x, y: maxY - r.height };
+    }
+  });
+};
+
+/**
+ * 等距分布：首尾卡片保持不动，中间卡片按相邻边缘间距相等排列。
+ * 卡片总尺寸超过跨度（间距为负）时改为按中心点等距，避免顺序颠倒。
+ */
+export const distributeElements = (
+  elements: CanvasElement[], sizes: Record<string, CardSize>, axis: DistributeAxis
+): Record<string, Point> => {
+  if (elements.length < 3) return {};
+  const horizontal = axis === 'horizontal';
+  const items = elements
+    .map(el => ({ el, rect: getCardRect(el, sizes) }))
+    .sort((a, b) => horizontal ? a.rect.x - b.rect.x : a.rect.y - b.rect.y);
+
+  const start = (i: number) => horizontal ? items[i].rect.x : items[i].rect.y;
+  const length = (i: number) => horizontal ? items[i].rect.width : items[i].rect.height;
+  const last = items.length - 1;
+  const span = start(last) + length(last) - start(0);
+  const total = items.reduce((sum, _, i) => sum + length(i), 0);
+  const gap = (span - total) / last;
+
+  const positions = new Map<string, number>();
+  if (gap >= 0) {
+    let cursor = start(0);
+    items.forEach((item, i) => { positions.set(item.el.id, cursor); cursor += length(i) + gap; });
+  } else {
+    const firstCenter = start(0) + length(0) / 2;
+    const step = (start(last) + length(last) / 2 - firstCenter) / last;
+    items.forEach((item, i) => positions.set(item.el.id, firstCenter + step * i - length(i) / 2));
+  }
+
+  return collectMoves(elements, el => {
+    const value = positions.get(el.id)!;
+    return horizontal ? { x: value, y: el.y } : { x: el.x, y: value };
+  });
+};
@@ -0,0 +1,222 @@
+import html2canvas from 'html2canvas';
+import { CanvasElement, Connection, DiagramType, THEMES } from "../types";
+import { CardSize, Rect, getCardRect, inflateRect, unionRect } from "./geometry";
+import { routeConnections } from "./edgeRouter";
+import { renderManager } from "./renderManager";
+import { createPdfFromImages, dataUrlToBytes, PdfImagePage } from "./pdfWriter";
+
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+export type ExportScope = 'canvas' | 'viewport' | 'selection';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  scope: ExportScope;
+  pixelRatio: number;       // 位图导出的分辨率倍数
+  selectedIds?: string[];   // scope 为 selection 时生效
+}
+
+/**
+ * 导出所需的画布上下文：DOM 节点用于位图截取，数据用于矢量合成
+ */
+export interface ExportContext {
+  viewportEl: HTMLElement; // 画布视口（<main>）
+  layerEl: HTMLElement;    // 应用了平移缩放的世界坐标层
+  elements: CanvasElement[];
+  connections: Connection[];
+  sizes: Record<string, CardSize>;
+  offset: { x: number; y: number };
+  scale: number;
+}
+
+const EXPORT_PADDING = 60;
+const BACKGROUND = '#020617';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * 计算导出范围对应的卡片集合与世界坐标包围盒
+ */
+export const resolveExportScope = (options: ExportOptions, ctx: ExportContext): { bounds: Rect; elements: CanvasElement[] } => {
+  if (options.scope === 'viewport') {
+    const bounds = {
+      x: -ctx.offset.x / ctx.scale,
+      y: -ctx.offset.y / ctx.scale,
+      width: ctx.viewportEl.clientWidth / ctx.scale,
+      height: ctx.viewportEl.clientHeight / ctx.scale
+    };
+    const elements = ctx.elements.filter(el => {
+      const r = getCardRect(el, ctx.sizes);
+      return r.x < bounds.x + bounds.width && r.x + r.width > bounds.x && r.y < bounds.y + bounds.height && r.y + r.height > bounds.y;
+    });
+    return { bounds, elements };
+  }
+
+  const ids = options.scope === 'selection' ? new Set(options.selectedIds ?? []) : null;
+  const elements = ids ? ctx.elements.filter(el => ids.has(el.id)) : ctx.elements;
+  if (elements.length === 0) throw new Error(ids ? '未选择任何卡片。' : '画布为空，没有可导出的内容。');
+  return { bounds: inflateRect(unionRect(elements.map(el => getCardRect(el, ctx.sizes))), EXPORT_PADDING), elements };
+};
+
+/**
+ * 使用 html2canvas 截取世界坐标中的指定区域。
+ * 在克隆文档中把视口重置为 1:1 并平移到区域原点，从而不受当前缩放影响；范围外的卡片与 UI 浮层会被隐藏。
+ */
+const rasterizeRegion = async (ctx: ExportContext, bounds: Rect, visibleIds: Set<string>, pixelRatio: number): Promise<HTMLCanvasElement> => {
+  const width = Math.ceil(bounds.width);
+  const height = Math.ceil(bounds.height);
+  const marker = `export-${Math.random().toString(36).slice(2, 9)}`;
+  ctx.viewportEl.setAttribute('data-export-root', marker);
+  ctx.layerEl.setAttribute('data-export-layer', marker);
+
+  try {
+    return await html2canvas(ctx.viewportEl, {
+      backgroundColor: BACKGROUND,
+      scale: pixelRatio,
+      width, height, x: 0, y: 0, scrollX: 0, scrollY: 0,
+      windowWidth: Math.max(width, window.innerWidth),
+      windowHeight: Math.max(height, window.innerHeight),
+      useCORS: true,
+      logging: false,
+      ignoreElements: (node) => node.hasAttribute?.('data-export-ignore'),
+      onclone: (doc) => {
+        const root = doc.querySelector<HTMLElement>(`[data-export-root="${marker}"]`);
+        const layer = doc.querySelector<HTMLElement>(`[data-export-layer="${marker}"]`);
+        if (!root || !layer) return;
+        Object.assign(root.style, {
+          position: 'fixed', left: '0px', top: '0px', width: `${width}px`, height: `${height}px`,
+          background: BACKGROUND, overflow: 'hidden'
+        });
+        layer.style.transform = `translate(${-bounds.x}px, ${-bounds.y}px)`;
+        layer.querySelectorAll<HTMLElement>('[data-card-id]').forEach(card => {
+          if (!visibleIds.has(card.dataset.cardId!)) card.style.display = 'none';
+        });
+        layer.querySelectorAll<SVGGElement>('[data-edge-from]').forEach(edge => {
+          if (!visibleIds.has(edge.dataset.edgeFrom!) || !visibleIds.has(edge.dataset.edgeTo!)) edge.style.display = 'none';
+        });
+      }
+    });
+  } finally {
+    ctx.viewportEl.removeAttribute('data-export-root');
+    ctx.layerEl.removeAttribute('data-export-layer');
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => canvas.toBlob(b => b ? resolve(b) : reject(new Error('图像编码失败')), type, quality));
+
+const exportPng = async (ctx: ExportContext, bounds: Rect, elements: CanvasElement[], pixelRatio: number) => {
+  const canvas = await rasterizeRegion(ctx, bounds, new Set(elements.map(el => el.id)), pixelRatio);
+  return canvasToBlob(canvas, 'image/png');
+};
+
+/**
+ * PDF：第一页为范围总览，之后每张卡片单独一页
+ */
+const exportPdf = async (ctx: ExportContext, bounds: Rect, elements: CanvasElement[], pixelRatio: number) => {
+  const toPage = (canvas: HTMLCanvasElement, region: Rect): PdfImagePage => ({
+    jpeg: dataUrlToBytes(canvas.toDataURL('image/jpeg', 0.92)),
+    imageWidth: canvas.width,
+    imageHeight: canvas.height,
+    // 以 96dpi 的 CSS 像素换算为 pt
+    pageWidth: region.width * 0.75,
+    pageHeight: region.height * 0.75
+  });
+
+  const pages: PdfImagePage[] = [];
+  const allIds = new Set(elements.map(el => el.id));
+  pages.push(toPage(await rasterizeRegion(ctx, bounds, allIds, pixelRatio), bounds));
+
+  for (const el of elements) {
+    const region = inflateRect(getCardRect(el, ctx.sizes), EXPORT_PADDING / 2);
+    pages.push(toPage(await rasterizeRegion(ctx, region, new Set([el.id]), pixelRatio), region));
+  }
+  return createPdfFromImages(pages);
+};
+
+const wrapText = (text: string, maxChars: number): string[] =>
+  text.split('\n').flatMap(line => {
+    if (line.length <= maxChars) return [line];
+    const parts: string[] = [];
+    for (let i = 0; i < line.length; i += maxChars) parts.push(line.slice(i, i + maxChars));
+    return parts;
+  });
+
+/**
+ * 矢量 SVG：卡片外框与标题由本模块绘制，图表内容直接嵌入 renderManager 输出的 SVG，连线复用画布的路由结果
+ */
+export const composeCanvasSvg = async (
+  elements: CanvasElement[], connections: Connection[], sizes: Record<string, CardSize>, bounds: Rect
+): Promise<string> => {
+  const ids = new Set(elements.map(el => el.id));
+  const edges = routeConnections(elements, connections.filter(c => ids.has(c.fromId) && ids.has(c.toId)), sizes);
+  const parser = new DOMParser();
+  const serializer = new XMLSerializer();
+
+  const cards = await Promise.all(elements.map(async el => {
+    const rect = getCardRect(el, sizes);
+    const parts: string[] = [
+      `<rect width="${rect.width}" height="${rect.height}" rx="44" fill="#0f172a" stroke="#1e293b" stroke-width="2"/>`,
+      `<text x="32" y="48" fill="#f1f5f9" font-size="13" font-weight="900" letter-spacing="2">${escapeXml(el.title.toUpperCase())}</text>`,
+      `<line x1="0" y1="80" x2="${rect.width}" y2="80" stroke="#1e293b"/>`
+    ];
+
+    if (el.type === DiagramType.NOTE) {
+      wrapText(el.content || '', 60).forEach((line, i) => {
+        parts.push(`<text x="40" y="${120 + i * 18}" fill="#fef9c3" fill-opacity="0.7" font-size="12" font-family="monospace">${escapeXml(line)}</text>`);
+      });
+    } else if (el.mermaidCode) {
+      try {
+        const theme = THEMES.find(t => t.id === el.themeId) ?? THEMES[0];
+        // 使用独立的任务 id，避免与卡片自身的渲染任务互相合并、替换或被卡片卸载时取消
+        const svgText = await renderManager.render(`export-${el.id}`, el.mermaidCode, theme.mermaidVars);
+        const svgEl = parser.parseFromString(svgText, 'image/svg+xml').documentElement;
+        svgEl.setAttribute('x', '40');
+        svgEl.setAttribute('y', '112');
+        svgEl.setAttribute('width', String(rect.width - 80));
+        svgEl.setAttribute('height', String(Math.max(rect.height - 152, 100)));
+        svgEl.setAttribute('preserveAspectRatio', 'xMidYMid meet');
+        svgEl.removeAttribute('style');
+        parts.push(serializer.serializeToString(svgEl));
+      } catch (err) {
+        parts.push(`<text x="40" y="140" fill="#fb7185" font-size="12" font-family="monospace">Invalid Mermaid Syntax</text>`);
+      }
+    }
+    return `<g transform="translate(${rect.x} ${rect.y})">${parts.join('')}</g>`;
+  }));
+
+  const edgeMarkup = edges.map(edge => [
+    `<path d="${edge.path}" fill="none" stroke="#6366f1" stroke-opacity="0.6" stroke-width="3" stroke-linejoin="round" marker-end="url(#export-arrow)"/>`,
+    edge.label
+      ? `<text x="${edge.labelPoint.x}" y="${edge.labelPoint.y}" text-anchor="middle" dominant-baseline="central" font-size="16" font-weight="900" fill="#c7d2fe" stroke="${BACKGROUND}" stroke-width="8" stroke-linejoin="round" paint-order="stroke">${escapeXml(edge.label)}</text>`
+      : ''
+  ].join('')).join('');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${bounds.width}" height="${bounds.height}" viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}" font-family="Inter, 'PingFang SC', sans-serif">`,
+    `<defs><marker id="export-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#818cf8"/></marker></defs>`,
+    `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="${BACKGROUND}"/>`,
+    edgeMarkup,
+    ...cards,
+    `</svg>`
+  ].join('\n');
+};
+
+/**
+ * 按选项导出画布，返回文件内容与建议文件名
+ */
+export const exportCanvas = async (options: ExportOptions, ctx: ExportContext): Promise<{ blob: Blob; filename: string }> => {
+  const { bounds, elements } = resolveExportScope(options, ctx);
+  const filename = `Arch-${options.scope}-${Date.now()}.${options.format}`;
+
+  switch (options.format) {
+    case 'png':
+      return { blob: await exportPng(ctx, bounds, elements, options.pixelRatio), filename };
+    case 'pdf':
+      return { blob: await exportPdf(ctx, bounds, elements, options.pixelRatio), filename };
+    case 'svg': {
+      const svg = await composeCanvasSvg(elements, ctx.connections, ctx.sizes, bounds);
+      return { blob: new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), filename };
+    }
+  }
+};
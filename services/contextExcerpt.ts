@@ -0,0 +1,77 @@
+import { CategoryNode } from "../types";
+
+/**
+ * 为单个规划节点从原始输入中摘取相关片段，作为绘图智能体的上下文。
+ * 原文较短时整段提供；较长时按段落/句子切分，用节点标题与描述的关键词打分，
+ * 取得分最高的片段并按原文顺序拼接，避免把整份需求文档塞给每个节点。
+ */
+export const MAX_EXCERPT_CHARS = 1800;
+
+const splitSegments = (text: string): string[] =>
+  text
+    .split(/\n\s*\n|(?<=[。！？!?；;])\s*|\n/)
+    .map(s => s.trim())
+    .filter(Boolean);
+
+// 中文按双字切分，英文按单词切分
+const keywordsOf = (text: string): Set<string> => {
+  const keys = new Set<string>();
+  const lower = text.toLowerCase();
+  (lower.match(/[a-z0-9_]{2,}/g) || []).forEach(w => keys.add(w));
+  (lower.match(/[一-龥]+/g) || []).forEach(run => {
+    if (run.length === 1) keys.add(run);
+    for (let i = 0; i < run.length - 1; i++) keys.add(run.slice(i, i + 2));
+  });
+  return keys;
+};
+
+const scoreSegment = (segment: string, titleKeys: Set<string>, descKeys: Set<string>): number => {
+  const lower = segment.toLowerCase();
+  let score = 0;
+  titleKeys.forEach(k => { if (lower.includes(k)) score += 3; }); // 标题关键词权重更高
+  descKeys.forEach(k => { if (lower.includes(k)) score += 1; });
+  return score;
+};
+
+export const extractRelevantExcerpt = (source: string, node: Pick<CategoryNode, 'title' | 'description'>, maxChars = MAX_EXCERPT_CHARS): string => {
+  const text = source.trim();
+  if (text.length <= maxChars) return text;
+
+  const segments = splitSegments(text);
+  const titleKeys = keywordsOf(node.title);
+  const descKeys = keywordsOf(node.description);
+  const ranked = segments
+    .map((segment, index) => ({ segment, index, score: scoreSegment(segment, titleKeys, descKeys) }))
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  // 没有任何命中时退回开头部分，至少保留文档的整体背景
+  if (ranked.length === 0) return text.slice(0, maxChars);
+
+  const picked: typeof ranked = [];
+  let length = 0;
+  for (const s of ranked) {
+    if (length + s.segment.length > maxChars) continue;
+    picked.push(s);
+    length += s.segment.length + 1;
+  }
+  if (picked.length === 0) return ranked[0].segment.slice(0, maxChars);
+
+  picked.sort((a, b) => a.index - b.index);
+  return picked.map((s, i) => (i > 0 && s.index !== picked[i - 1].index + 1 ? '…\n' : '') + s.segment).join('\n');
+};
+
+/**
+ * 组装单个节点的生成上下文：层级体系、节点所在层级与原文摘录。
+ * levelIndex 为节点在 hierarchy 中的下标（规划结果的层级编号可能从 0 或 1 开始，由调用方换算）
+ */
+export const buildNodeContext = (source: string, node: CategoryNode, hierarchy: string[] = [], levelIndex?: number): string => {
+  const parts: string[] = [];
+  if (hierarchy.length > 0) {
+    parts.push(`层级体系：${hierarchy.join(' > ')}`);
+    const levelName = levelIndex !== undefined ? hierarchy[levelIndex] : undefined;
+    if (levelName) parts.push(`该模块所在层级：${levelName}`);
+  }
+  parts.push(`原文相关摘录：\n${extractRelevantExcerpt(source, node)}`);
+  return parts.join('\n');
+};
@@ -0,0 +1,134 @@
+import { CanvasElement, Connection, DiagramType } from "../types";
+import { CardSize, getCardRect } from "./geometry";
+import { toFileSlug } from "./fileTransfer";
+
+/**
+ * 文本类导出：Markdown 文档、Mermaid 源文件（.mmd）与 draw.io / diagrams.net XML
+ */
+export type DiagramExportFormat = 'md' | 'mmd' | 'drawio';
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * 文档顺序：按层级，其次按画布上自上而下、自左而右的位置
+ */
+export const sortByLevel = (elements: CanvasElement[]) =>
+  [...elements].sort((a, b) => (a.level - b.level) || (a.y - b.y) || (a.x - b.x));
+
+const fence = (code: string) => {
+  // 代码中出现反引号序列时加长围栏
+  const longest = Math.max(2, ...Array.from(code.matchAll(/`+/g)).map(m => m[0].length));
+  return '`'.repeat(longest + 1);
+};
+
+const cardToMarkdown = (el: CanvasElement, headingLevel = 2): string => {
+  const heading = `${'#'.repeat(headingLevel)} ${el.title}`;
+  if (el.type === DiagramType.NOTE) return `${heading}\n\n${(el.content || '').trim()}\n`;
+  const f = fence(el.mermaidCode);
+  const note = el.content?.trim() ? `${el.content.trim()}\n\n` : '';
+  return `${heading}\n\n${note}${f}mermaid\n${el.mermaidCode.trim()}\n${f}\n`;
+};
+
+export const toMarkdown = (elements: CanvasElement[], connections: Connection[], projectName: string): string => {
+  const sorted = sortByLevel(elements);
+  const byId = new Map(elements.map(el => [el.id, el]));
+  const sections = [`# ${projectName}`, '', ...sorted.map(el => cardToMarkdown(el))];
+
+  const relations = connections
+    .filter(c => byId.has(c.fromId) && byId.has(c.toId))
+    .map(c => `- ${byId.get(c.fromId)!.title} → ${byId.get(c.toId)!.title}${c.label ? `：${c.label}` : ''}`);
+  if (relations.length > 0) sections.push('## 模块关系', '', ...relations, '');
+
+  return sections.join('\n');
+};
+
+export const toMermaidSource = (el: CanvasElement): string =>
+  `%% ${el.title}\n${el.mermaidCode.trim()}\n`;
+
+export const toDrawioXml = (
+  elements: CanvasElement[], connections: Connection[], sizes: Record<string, CardSize>, name: string
+): string => {
+  const ids = new Set(elements.map(el => el.id));
+  const cellId = (id: string) => `card-${id}`;
+
+  const vertices = elements.map(el => {
+    const rect = getCardRect(el, sizes);
+    const body = el.type === DiagramType.NOTE ? el.content || '' : el.mermaidCode;
+    const label = `<b>${escapeHtml(el.title)}</b><hr><pre style="text-align:left;font-size:10px">${escapeHtml(body)}</pre>`;
+    const style = el.type === DiagramType.NOTE
+      ? 'shape=note;whiteSpace=wrap;html=1;fillColor=#fff2cc;strokeColor=#d6b656;align=left;verticalAlign=top;spacing=12;'
+      : 'rounded=1;arcSize=6;whiteSpace=wrap;html=1;fillColor=#0f172a;strokeColor=#6366f1;fontColor=#e2e8f0;align=left;verticalAlign=top;spacing=16;';
+    return [
+      `        <UserObject id="${cellId(el.id)}" label="${escapeXml(label)}" type="${el.type}" level="${el.level}" mermaid="${escapeXml(el.mermaidCode)}">`,
+      `          <mxCell style="${style}" vertex="1" parent="1">`,
+      `            <mxGeometry x="${Math.round(rect.x)}" y="${Math.round(rect.y)}" width="${Math.round(rect.width)}" height="${Math.round(rect.height)}" as="geometry"/>`,
+      `          </mxCell>`,
+      `        </UserObject>`
+    ].join('\n');
+  });
+
+  const edges = connections
+    .filter(c => ids.has(c.fromId) && ids.has(c.toId))
+    .map(c => [
+      `        <mxCell id="edge-${c.id}" value="${escapeXml(c.label || '')}" style="edgeStyle=orthogonalEdgeStyle;rounded=1;html=1;strokeColor=#6366f1;strokeWidth=2;endArrow=block;" edge="1" parent="1" source="${cellId(c.fromId)}" target="${cellId(c.toId)}">`,
+      `          <mxGeometry relative="1" as="geometry"/>`,
+      `        </mxCell>`
+    ].join('\n'));
+
+  return [
+    `<mxfile host="arch-pro-engine" modified="${new Date().toISOString()}" type="device">`,
+    `  <diagram id="${crypto.randomUUID()}" name="${escapeXml(name)}">`,
+    `    <mxGraphModel grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" page="0">`,
+    `      <root>`,
+    `        <mxCell id="0"/>`,
+    `        <mxCell id="1" parent="0"/>`,
+    ...vertices,
+    ...edges,
+    `      </root>`,
+    `    </mxGraphModel>`,
+    `  </diagram>`,
+    `</mxfile>`,
+    ''
+  ].join('\n');
+};
+
+/**
+ * 生成导出文件。单卡导出时传入只含该卡片的数组；.mmd 每张图表卡片各生成一个文件，笔记卡片不导出。
+ */
+export const buildDiagramExport = (
+  format: DiagramExportFormat,
+  elements: CanvasElement[],
+  connections: Connection[],
+  sizes: Record<string, CardSize>,
+  name: string
+): ExportFile[] => {
+  const base = toFileSlug(name);
+  switch (format) {
+    case 'md': {
+      const content = elements.length === 1 ? cardToMarkdown(elements[0], 1) : toMarkdown(elements, connections, name);
+      return [{ filename: `${base}.md`, content, mimeType: 'text/markdown' }];
+    }
+    case 'drawio':
+      return [{ filename: `${base}.drawio`, content: toDrawioXml(elements, connections, sizes, name), mimeType: 'application/xml' }];
+    case 'mmd': {
+      const diagrams = sortByLevel(elements).filter(el => el.type !== DiagramType.NOTE && el.mermaidCode.trim());
+      const used = new Map<string, number>();
+      return diagrams.map(el => {
+        const slug = toFileSlug(el.title);
+        const count = used.get(slug) ?? 0;
+        used.set(slug, count + 1);
+        return { filename: `${count > 0 ? `${slug}-${count + 1}` : slug}.mmd`, content: toMermaidSource(el), mimeType: 'text/plain' };
+      });
+    }
+  }
+};
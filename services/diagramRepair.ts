@@ -0,0 +1,44 @@
+import { DiagramError } from "../types";
+import { repairDiagramCode } from "./geminiService";
+import { renderManager } from "./renderManager";
+
+/**
+ * AI 语法修复循环：校验 Mermaid 代码，失败时把代码与错误交给模型修正，直到解析通过或用尽次数
+ */
+export const MAX_REPAIR_ATTEMPTS = 3;
+
+export interface RepairOptions {
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  onAttempt?: (attempt: number, error: DiagramError) => void;
+}
+
+export interface RepairResult {
+  code: string;
+  error: DiagramError | null; // 用尽次数后仍无法解析时为最后一次的错误
+  attempts: number;
+}
+
+export const ensureValidDiagram = async (code: string, options: RepairOptions = {}): Promise<RepairResult> => {
+  const maxAttempts = options.maxAttempts ?? MAX_REPAIR_ATTEMPTS;
+  let current = code;
+  let attempts = 0;
+
+  while (true) {
+    const parsed = await renderManager.validate(current);
+    if (parsed.ok === true) return { code: current, error: null, attempts };
+    const error: DiagramError = { message: parsed.message, line: parsed.line };
+    if (attempts >= maxAttempts || options.signal?.aborted) return { code: current, error, attempts };
+    attempts++;
+    options.onAttempt?.(attempts, error);
+    current = await repairDiagramCode(current, error, options.signal);
+  }
+};
+
+/**
+ * 生成面向用户的错误描述。Mermaid 的报错首行只是 "Parse error on line N:"，真正的原因在最后一行
+ */
+export const describeDiagramError = (error: DiagramError): string => {
+  const lines = error.message.split('\n').map(l => l.trim()).filter(Boolean);
+  return `${error.line ? `第 ${error.line} 行：` : ''}${lines[lines.length - 1] || '语法错误'}`;
+};
@@ -0,0 +1,310 @@
+import { CanvasElement, Connection } from "../types";
+import {
+  CardSize, Point, Rect, getCardRect, inflateRect, rectCenter, rectsIntersect, pointStrictlyInside
+} from "./geometry";
+
+type Side = 'top' | 'right' | 'bottom' | 'left';
+type Dir = 0 | 1 | 2 | 3; // 0: +x, 1: +y, 2: -x, 3: -y
+
+export interface RoutedEdge {
+  id: string;
+  fromId: string;
+  toId: string;
+  label?: string;
+  points: Point[];
+  path: string;
+  labelPoint: Point;
+}
+
+const OBSTACLE_PADDING = 24;   // 连线与卡片保持的最小间距
+const STUB_LENGTH = 40;        // 锚点向外伸出的直线段，需大于 OBSTACLE_PADDING
+const SEARCH_MARGIN = 600;     // 只考虑起止点包围盒附近的障碍，控制网格规模
+const BEND_PENALTY = 80;       // 每次拐弯的等效长度，鼓励更少的折线
+const CORNER_RADIUS = 14;
+
+const SIDE_DIR: Record<Side, Dir> = { right: 0, bottom: 1, left: 2, top: 3 };
+const DIR_VEC: Point[] = [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 0, y: -1 }];
+
+/**
+ * 根据两张卡片的相对位置选择出入边：水平间隙明显时左右连接，否则上下连接
+ */
+const pickSides = (from: Rect, to: Rect): [Side, Side] => {
+  const a = rectCenter(from);
+  const b = rectCenter(to);
+  const gapX = Math.max(to.x - (from.x + from.width), from.x - (to.x + to.width));
+  const gapY = Math.max(to.y - (from.y + from.height), from.y - (to.y + to.height));
+
+  if (gapX >= gapY) {
+    return b.x >= a.x ? ['right', 'left'] : ['left', 'right'];
+  }
+  return b.y >= a.y ? ['bottom', 'top'] : ['top', 'bottom'];
+};
+
+const anchorOf = (r: Rect, side: Side): Point => {
+  switch (side) {
+    case 'top': return { x: r.x + r.width / 2, y: r.y };
+    case 'bottom': return { x: r.x + r.width / 2, y: r.y + r.height };
+    case 'left': return { x: r.x, y: r.y + r.height / 2 };
+    case 'right': return { x: r.x + r.width, y: r.y + r.height / 2 };
+  }
+};
+
+const extend = (p: Point, dir: Dir, length: number): Point => ({
+  x: p.x + DIR_VEC[dir].x * length,
+  y: p.y + DIR_VEC[dir].y * length
+});
+
+/**
+ * 极简二叉堆，用于 Dijkstra 的优先队列
+ */
+class MinHeap<T> {
+  private items: { key: number; value: T }[] = [];
+
+  get size() { return this.items.length; }
+
+  push(key: number, value: T) {
+    const items = this.items;
+    items.push({ key, value });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].key <= items[i].key) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { key: number; value: T } | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < items.length && items[l].key < items[smallest].key) smallest = l;
+        if (r < items.length && items[r].key < items[smallest].key) smallest = r;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+const uniqueSorted = (values: number[]) => Array.from(new Set(values.map(v => Math.round(v * 100) / 100))).sort((a, b) => a - b);
+
+/**
+ * 在障碍物边界构成的稀疏正交网格上做带拐弯惩罚的 Dijkstra 搜索。
+ * 障碍物的边界本身就是网格线，因此相邻网格点之间的线段要么完全在障碍内，要么完全在外，
+ * 只需检测线段中点即可判断可通行性。
+ */
+const searchOrthogonalPath = (start: Point, startDir: Dir, goal: Point, goalDir: Dir, obstacles: Rect[]): Point[] | null => {
+  const xs = uniqueSorted([start.x, goal.x, (start.x + goal.x) / 2, ...obstacles.flatMap(o => [o.x, o.x + o.width])]);
+  const ys = uniqueSorted([start.y, goal.y, (start.y + goal.y) / 2, ...obstacles.flatMap(o => [o.y, o.y + o.height])]);
+  const w = xs.length;
+  const h = ys.length;
+
+  const blocked = (p: Point) => obstacles.some(o => pointStrictlyInside(p, o));
+  const xi = (x: number) => xs.indexOf(Math.round(x * 100) / 100);
+  const yi = (y: number) => ys.indexOf(Math.round(y * 100) / 100);
+
+  const sx = xi(start.x), sy = yi(start.y), gx = xi(goal.x), gy = yi(goal.y);
+  if (blocked(start) || blocked(goal)) return null;
+
+  // 预先计算网格点与相邻线段的可通行性，避免搜索中重复检测
+  const nodeBlocked = new Uint8Array(w * h);
+  const hSegBlocked = new Uint8Array(w * h); // (x, y) -> (x + 1, y)
+  const vSegBlocked = new Uint8Array(w * h); // (x, y) -> (x, y + 1)
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      nodeBlocked[i] = blocked({ x: xs[x], y: ys[y] }) ? 1 : 0;
+      if (x + 1 < w) hSegBlocked[i] = blocked({ x: (xs[x] + xs[x + 1]) / 2, y: ys[y] }) ? 1 : 0;
+      if (y + 1 < h) vSegBlocked[i] = blocked({ x: xs[x], y: (ys[y] + ys[y + 1]) / 2 }) ? 1 : 0;
+    }
+  }
+  const segmentBlocked = (cx: number, cy: number, nx: number, ny: number) => cy === ny
+    ? hSegBlocked[cy * w + Math.min(cx, nx)] === 1
+    : vSegBlocked[Math.min(cy, ny) * w + cx] === 1;
+
+  // 状态编码：((y * w) + x) * 4 + dir
+  const stateCount = w * h * 4;
+  const dist = new Float64Array(stateCount).fill(Infinity);
+  const prev = new Int32Array(stateCount).fill(-1);
+  const heap = new MinHeap<number>();
+
+  const startState = (sy * w + sx) * 4 + startDir;
+  dist[startState] = 0;
+  heap.push(0, startState);
+
+  let bestGoal = -1;
+  let bestCost = Infinity;
+
+  while (heap.size > 0) {
+    const { key, value: state } = heap.pop()!;
+    if (key > dist[state] || key >= bestCost) continue;
+
+    const dir = (state % 4) as Dir;
+    const cell = (state - dir) / 4;
+    const cx = cell % w;
+    const cy = (cell - cx) / w;
+
+    if (cx === gx && cy === gy) {
+      const cost = key + (dir === goalDir ? 0 : BEND_PENALTY * 2);
+      if (cost < bestCost) { bestCost = cost; bestGoal = state; }
+      continue;
+    }
+
+    for (let nd = 0 as Dir; nd < 4; nd = (nd + 1) as Dir) {
+      // 不允许原路折返
+      if ((nd + 2) % 4 === dir) continue;
+      const nx = cx + DIR_VEC[nd].x;
+      const ny = cy + DIR_VEC[nd].y;
+      if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+
+      if (nodeBlocked[ny * w + nx] === 1 || segmentBlocked(cx, cy, nx, ny)) continue;
+
+      const cost = key + Math.abs(xs[nx] - xs[cx]) + Math.abs(ys[ny] - ys[cy]) + (nd === dir ? 0 : BEND_PENALTY);
+      const nextState = (ny * w + nx) * 4 + nd;
+      if (cost < dist[nextState]) {
+        dist[nextState] = cost;
+        prev[nextState] = state;
+        heap.push(cost, nextState);
+      }
+    }
+  }
+
+  if (bestGoal === -1) return null;
+
+  const path: Point[] = [];
+  for (let s = bestGoal; s !== -1; s = prev[s]) {
+    const cell = (s - (s % 4)) / 4;
+    path.push({ x: xs[cell % w], y: ys[Math.floor(cell / w)] });
+  }
+  return path.reverse();
+};
+
+/**
+ * 去除重复点与共线的中间点
+ */
+const simplify = (points: Point[]): Point[] => {
+  const deduped = points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+  return deduped.filter((p, i) => {
+    if (i === 0 || i === deduped.length - 1) return true;
+    const a = deduped[i - 1];
+    const b = deduped[i + 1];
+    return !((a.x === p.x && p.x === b.x) || (a.y === p.y && p.y === b.y));
+  });
+};
+
+/**
+ * 把折线转成带圆角的 SVG path
+ */
+const toRoundedPath = (points: Point[]): string => {
+  if (points.length === 0) return '';
+  let d = `M ${points[0].x} ${points[0].y}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const a = points[i - 1];
+    const b = points[i + 1];
+    const r = Math.min(CORNER_RADIUS, Math.hypot(p.x - a.x, p.y - a.y) / 2, Math.hypot(b.x - p.x, b.y - p.y) / 2);
+    const inX = p.x - Math.sign(p.x - a.x) * r;
+    const inY = p.y - Math.sign(p.y - a.y) * r;
+    const outX = p.x + Math.sign(b.x - p.x) * r;
+    const outY = p.y + Math.sign(b.y - p.y) * r;
+    d += ` L ${inX} ${inY} Q ${p.x} ${p.y} ${outX} ${outY}`;
+  }
+  const last = points[points.length - 1];
+  return `${d} L ${last.x} ${last.y}`;
+};
+
+/**
+ * 沿折线长度取中点，用于放置连线标签
+ */
+const midpointAlong = (points: Point[]): Point => {
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i]) {
+      const t = lengths[i] === 0 ? 0 : remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * t,
+        y: points[i].y + (points[i + 1].y - points[i].y) * t
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return points[0];
+};
+
+/**
+ * 计算单条连线的避障路由
+ */
+export const routeConnection = (from: Rect, to: Rect, obstacles: Rect[]): Point[] => {
+  const [fromSide, toSide] = pickSides(from, to);
+  const startDir = SIDE_DIR[fromSide];
+  // 终点方向取“进入”目标卡片的方向，即出边方向的反向
+  const goalDir = ((SIDE_DIR[toSide] + 2) % 4) as Dir;
+
+  const startAnchor = anchorOf(from, fromSide);
+  const goalAnchor = anchorOf(to, toSide);
+  const start = extend(startAnchor, startDir, STUB_LENGTH);
+  const goal = extend(goalAnchor, SIDE_DIR[toSide], STUB_LENGTH);
+
+  const inflated = [from, to, ...obstacles].map(r => inflateRect(r, OBSTACLE_PADDING));
+  const searchBox = inflateRect({
+    x: Math.min(start.x, goal.x),
+    y: Math.min(start.y, goal.y),
+    width: Math.abs(goal.x - start.x),
+    height: Math.abs(goal.y - start.y)
+  }, SEARCH_MARGIN);
+
+  const nearby = inflated.filter(r => rectsIntersect(r, searchBox));
+  const middle = searchOrthogonalPath(start, startDir, goal, goalDir, nearby)
+    // 局部区域无解时扩大到全部障碍再试一次
+    ?? (nearby.length < inflated.length ? searchOrthogonalPath(start, startDir, goal, goalDir, inflated) : null)
+    // 仍然无解（如卡片重叠）时退化为简单的 Z 形折线
+    ?? (startDir % 2 === 0
+      ? [start, { x: (start.x + goal.x) / 2, y: start.y }, { x: (start.x + goal.x) / 2, y: goal.y }, goal]
+      : [start, { x: start.x, y: (start.y + goal.y) / 2 }, { x: goal.x, y: (start.y + goal.y) / 2 }, goal]);
+
+  return simplify([startAnchor, ...middle, goalAnchor]);
+};
+
+/**
+ * 为画布上所有连线计算路由结果。悬空的连线（端点卡片不存在）会被忽略。
+ */
+export const routeConnections = (
+  elements: CanvasElement[],
+  connections: Connection[],
+  sizes: Record<string, CardSize> = {}
+): RoutedEdge[] => {
+  const rects = new Map(elements.map(el => [el.id, getCardRect(el, sizes)]));
+
+  return connections.flatMap(conn => {
+    const from = rects.get(conn.fromId);
+    const to = rects.get(conn.toId);
+    if (!from || !to || conn.fromId === conn.toId) return [];
+
+    const obstacles = elements
+      .filter(el => el.id !== conn.fromId && el.id !== conn.toId)
+      .map(el => rects.get(el.id)!);
+    const points = routeConnection(from, to, obstacles);
+
+    return [{
+      id: conn.id,
+      fromId: conn.fromId,
+      toId: conn.toId,
+      label: conn.label,
+      points,
+      path: toRoundedPath(points),
+      labelPoint: midpointAlong(points)
+    }];
+  });
+};
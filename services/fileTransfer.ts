@@ -0,0 +1,20 @@
+/**
+ * 触发浏览器下载
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // 延迟释放，保证下载已被浏览器接管
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (text: string, filename: string, mimeType = 'text/plain') =>
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), filename);
+
+/**
+ * 生成安全的文件名片段
+ */
+export const toFileSlug = (name: string) => name.trim().replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
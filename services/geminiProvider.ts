@@ -0,0 +1,57 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { JsonSchema, LLMProvider, LLMRequest } from "./llmProvider";
+
+/**
+ * Gemini Provider：基于 @google/genai，结构化输出使用 responseSchema
+ */
+const clients = new Map<string, GoogleGenAI>();
+
+const clientFor = (apiKey: string): GoogleGenAI => {
+  let client = clients.get(apiKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey });
+    clients.set(apiKey, client);
+  }
+  return client;
+};
+
+// Type 枚举的取值即大写的类型名
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  required: schema.required,
+  items: schema.items && toGeminiSchema(schema.items),
+  properties: schema.properties && Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+});
+
+const toParameters = (request: LLMRequest) => ({
+  model: request.model,
+  contents: request.images?.length
+    ? { parts: [...request.images.map(image => ({ inlineData: image })), { text: request.prompt }] }
+    : request.prompt,
+  config: {
+    abortSignal: request.signal,
+    systemInstruction: request.systemInstruction,
+    ...(request.responseSchema ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(request.responseSchema) } : {})
+  }
+});
+
+export const createGeminiProvider = (apiKey: string): LLMProvider => {
+  const ai = clientFor(apiKey);
+  return {
+    kind: 'gemini',
+    generate: async (request) => {
+      const response = await ai.models.generateContent(toParameters(request));
+      return response.text || '';
+    },
+    stream: async (request, onText) => {
+      const stream = await ai.models.generateContentStream(toParameters(request));
+      let text = '';
+      for await (const chunk of stream) {
+        text += chunk.text || '';
+        onText(text);
+      }
+      return text;
+    }
+  };
+};
@@ -1,118 +1,124 @@
+import { DeconstructionPlan, CategoryNode, CanvasElement, DiagramError } from "../types";
+import { AgentError, AgentTask, LLMRequest, callAgent, streamAgent } from "./llmProvider";
+import {
+  AgentOutputError, MAX_PLAN_DEPTH, MAX_RELATION_LABEL_LENGTH, PLAN_SCHEMA, RELATION_SCHEMA, VISION_SCHEMA, VisionResult,
+  parseMermaidResponse, parsePlan, parseRelationLabel, parseReport, parseVisionResult
+} from "./agentContracts";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { DeconstructionPlan, CategoryNode, DiagramType, CanvasElement } from "../types";
+/**
+ * 智能体：各自的提示词与输出契约。模型调用经 llmProvider 按模型设置分发到对应服务商，
+ * 输出不符合契约时附上具体问题作为纠正提示自动重试
+ */
+export const MAX_OUTPUT_ATTEMPTS = 3;
+
+interface RunOptions {
+  onText?: (text: string) => void; // 提供时使用流式调用
+}
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const runAgent = async <T>(
+  task: AgentTask, request: Omit<LLMRequest, 'task' | 'model'>, parse: (text: string) => T, options: RunOptions = {}
+): Promise<T> => {
+  let prompt = request.prompt;
+  let lastError: AgentOutputError | null = null;
+  for (let attempt = 1; attempt <= MAX_OUTPUT_ATTEMPTS; attempt++) {
+    const text = options.onText
+      ? await streamAgent(task, { ...request, prompt }, options.onText)
+      : await callAgent(task, { ...request, prompt });
+    try {
+      return parse(text);
+    } catch (err) {
+      if (!(err instanceof AgentOutputError)) throw err;
+      lastError = err;
+      prompt = `${request.prompt}\n\n你上一次的回复不符合要求：${err.message}。请修正后严格按要求重新输出，不要附加解释。`;
+    }
+  }
+  throw new AgentError(lastError?.message || '输出不符合要求', task, 'invalid_output', MAX_OUTPUT_ATTEMPTS);
+};
 
 /**
  * 分类智能体：执行逻辑解构
  */
-export const classifyContentAgent = async (content: string, customHierarchy?: string): Promise<DeconstructionPlan> => {
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `
+export const classifyContentAgent = async (content: string, customHierarchy?: string): Promise<DeconstructionPlan> =>
+  runAgent('classify', {
+    args: { content, customHierarchy },
+    prompt: `
     请对以下内容进行深度解构。
-    目标：确定分类层级并建立树状结构。
-    
+    目标：确定分类层级并建立树状结构，子模块放入所属模块的 subCategories 中（最多 ${MAX_PLAN_DEPTH} 层）。
+
     用户内容："${content}"
     ${customHierarchy ? `用户指定的层级规则：${customHierarchy}` : '请根据语义自动确定最佳层级。'}
     `,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          projectName: { type: Type.STRING },
-          hierarchy: { type: Type.ARRAY, items: { type: Type.STRING } },
-          nodes: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                title: { type: Type.STRING },
-                level: { type: Type.INTEGER },
-                description: { type: Type.STRING },
-                suggestedType: { type: Type.STRING, description: 'flowchart, sequenceDiagram, gantt, mindmap 之一' }
-              },
-              required: ['title', 'level', 'description', 'suggestedType']
-            }
-          }
-        },
-        required: ['projectName', 'hierarchy', 'nodes']
-      }
-    }
-  });
-  return JSON.parse(response.text || "{}");
-};
+    responseSchema: PLAN_SCHEMA
+  }, parsePlan);
+
+// 流式输出中尚未闭合的代码块：去掉开头的围栏，截断到结尾围栏（如已出现）
+const extractPartialMermaidCode = (text: string): string =>
+  text.replace(/^[\s\S]*?```(?:mermaid)?[^\S\n]*\n?/, '').replace(/```[\s\S]*$/, '');
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  onChunk?: (partialCode: string) => void; // 每收到一段流式输出时回调当前已生成的代码
+}
 
 /**
- * 绘图智能体
+ * 绘图智能体：流式生成，signal 中止时取消进行中的请求
  */
-export const generateDiagramAgent = async (node: CategoryNode, context: string): Promise<string> => {
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `
+export const generateDiagramAgent = async (node: CategoryNode, context: string, options: GenerateOptions = {}): Promise<string> =>
+  runAgent('generate', {
+    signal: options.signal,
+    args: { title: node.title, description: node.description, type: node.suggestedType },
+    prompt: `
     请为 [${node.title}] 生成 Mermaid 代码。
     描述：${node.description}
     类型：${node.suggestedType}
     上下文背景：${context}
-    
-    规则：仅输出以 \`\`\`mermaid 开头的代码块。
+
+    规则：仅输出以 \`\`\`mermaid 开头的代码块；组件、角色与流程以原文摘录为准，不要臆造原文未提及的内容。
     `
-  });
-  const text = response.text || "";
-  const match = text.match(/```(?:mermaid)?\s*([\s\S]*?)```/);
-  return match ? match[1].trim() : text.trim();
-};
+  }, parseMermaidResponse, { onText: (partial) => options.onChunk?.(extractPartialMermaidCode(partial)) });
 
 /**
  * 视觉解构智能体
  */
-export const visionToDiagram = async (base64Image: string): Promise<any> => {
-  // Fix: Using gemini-3-pro-preview for complex architectural reasoning from images.
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview', 
-    contents: {
-      parts: [
-        { inlineData: { data: base64Image, mimeType: 'image/png' } },
-        { text: "识别此图片中的架构逻辑并转化为 Mermaid 代码。请以 JSON 格式返回，包含 title, suggestedType, mermaidCode 字段。" }
-      ]
-    }
-  });
-  const text = response.text || "{}";
-  const match = text.match(/\{[\s\S]*\}/);
-  return JSON.parse(match ? match[0] : text);
-};
+export const visionToDiagram = async (base64Image: string): Promise<VisionResult> =>
+  runAgent('vision', {
+    images: [{ data: base64Image, mimeType: 'image/png' }],
+    prompt: "识别此图片中的架构逻辑并转化为 Mermaid 代码。请以 JSON 格式返回，包含 title, suggestedType（flowchart, sequenceDiagram, gantt, mindmap 之一）, mermaidCode 字段。",
+    responseSchema: VISION_SCHEMA
+  }, parseVisionResult);
 
 /**
  * 架构审计智能体
  */
 export const analyzeWorkspace = async (elements: CanvasElement[], query: string): Promise<string> => {
   const context = elements.map(el => `[图表: ${el.title}] 内容: ${el.mermaidCode || el.content}`).join('\n\n');
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `工作空间背景：\n${context}\n\n指令：${query}`,
-    config: {
-      systemInstruction: "你是一个资深的架构审查专家。"
-    }
-  });
-  return response.text || "分析失败";
+  return runAgent('review', {
+    args: { titles: elements.map(el => el.title), query },
+    prompt: `工作空间背景：\n${context}\n\n指令：${query}`,
+    systemInstruction: "你是一个资深的架构审查专家。"
+  }, parseReport);
 };
 
-export const modifyDiagramContent = async (currentCode: string, instruction: string): Promise<string> => {
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `当前代码：\n\`\`\`mermaid\n${currentCode}\n\`\`\`\n\n指令：${instruction}`
-  });
-  const text = response.text || "";
-  const match = text.match(/```(?:mermaid)?\s*([\s\S]*?)```/);
-  return match ? match[1].trim() : text.trim();
-};
+export const modifyDiagramContent = async (currentCode: string, instruction: string, signal?: AbortSignal): Promise<string> =>
+  runAgent('modify', {
+    signal,
+    args: { code: currentCode, instruction },
+    prompt: `当前代码：\n\`\`\`mermaid\n${currentCode}\n\`\`\`\n\n指令：${instruction}\n\n仅输出以 \`\`\`mermaid 开头的完整代码块。`
+  }, parseMermaidResponse);
 
-export const findRelationshipBetweenDiagrams = async (source: CanvasElement, target: CanvasElement): Promise<string> => {
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `分析 [${source.title}] -> [${target.title}] 的联系标签，仅返回短词。`
-  });
-  return response.text?.trim().slice(0, 10) || "关联";
-};
+/**
+ * 语法修复智能体：根据 Mermaid 解析错误修正代码，保持图表语义不变
+ */
+export const repairDiagramCode = async (code: string, error: DiagramError, signal?: AbortSignal): Promise<string> =>
+  runAgent('repair', {
+    signal,
+    args: { code, error },
+    prompt: `以下 Mermaid 代码无法解析：\n\`\`\`mermaid\n${code}\n\`\`\`\n\n解析错误${error.line ? `（第 ${error.line} 行）` : ''}：${error.message}\n\n请修正语法错误，尽量保持节点、连线与图表类型不变。仅输出以 \`\`\`mermaid 开头的代码块。`
+  }, parseMermaidResponse);
+
+export const findRelationshipBetweenDiagrams = async (source: CanvasElement, target: CanvasElement): Promise<string> =>
+  runAgent('relation', {
+    args: { source: source.title, target: target.title },
+    prompt: `分析 [${source.title}] -> [${target.title}] 的联系，以 JSON 返回 label 字段：不超过 ${MAX_RELATION_LABEL_LENGTH} 个字的关系短词。`,
+    responseSchema: RELATION_SCHEMA
+  }, parseRelationLabel);
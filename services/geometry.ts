@@ -0,0 +1,61 @@
+import { CanvasElement } from "../types";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CardSize {
+  width: number;
+  height: number;
+}
+
+// 卡片在画布上固定 550px 宽，高度取决于内容，未测量前按 600px 估算
+export const CARD_WIDTH = 550;
+export const DEFAULT_CARD_HEIGHT = 600;
+
+/**
+ * 获取卡片在世界坐标系下的包围盒，优先使用 DOM 实测尺寸
+ */
+export const getCardRect = (el: CanvasElement, sizes: Record<string, CardSize> = {}): Rect => {
+  const size = sizes[el.id];
+  return {
+    x: el.x,
+    y: el.y,
+    width: size?.width || CARD_WIDTH,
+    height: size?.height || DEFAULT_CARD_HEIGHT
+  };
+};
+
+export const inflateRect = (r: Rect, amount: number): Rect => ({
+  x: r.x - amount,
+  y: r.y - amount,
+  width: r.width + amount * 2,
+  height: r.height + amount * 2
+});
+
+export const unionRect = (rects: Rect[]): Rect => {
+  const minX = Math.min(...rects.map(r => r.x));
+  const minY = Math.min(...rects.map(r => r.y));
+  const maxX = Math.max(...rects.map(r => r.x + r.width));
+  const maxY = Math.max(...rects.map(r => r.y + r.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const rectCenter = (r: Rect): Point => ({ x: r.x + r.width / 2, y: r.y + r.height / 2 });
+
+export const rectsIntersect = (a: Rect, b: Rect): boolean =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/**
+ * 严格包含判断：落在边界上的点不算在矩形内部
+ */
+export const pointStrictlyInside = (p: Point, r: Rect): boolean =>
+  p.x > r.x && p.x < r.x + r.width && p.y > r.y && p.y < r.y + r.height;
@@ -0,0 +1,186 @@
+import { CanvasElement, ChatMessage, Connection } from "../types";
+import { stripTransientFields } from "./projectArchive";
+
+/**
+ * 基于操作日志的撤销/重做。
+ * 每个操作记录受影响实体的前后状态（补丁），撤销即反向应用补丁，因此无需保存整份快照，
+ * 也不会把 isLocalUpdating 等运行时字段写进历史。
+ */
+export type OperationType = 'add' | 'move' | 'edit' | 'link' | 'delete' | 'theme' | 'layout' | 'plan' | 'import';
+
+export interface DocumentState {
+  elements: CanvasElement[];
+  connections: Connection[];
+  messages: ChatMessage[];
+}
+
+type Collection = keyof DocumentState;
+type Entity = { id: string };
+
+export interface EntityPatch {
+  collection: Collection;
+  id: string;
+  before: Entity | null; // null 表示该实体由此操作新增
+  after: Entity | null;  // null 表示该实体被此操作删除
+  index: number;         // 实体在集合中的位置，用于撤销删除时原位恢复
+}
+
+export interface Operation {
+  id: string;
+  type: OperationType;
+  label: string;
+  timestamp: number;
+  patches: EntityPatch[];
+  coalesceKey?: string;
+}
+
+export interface HistoryState {
+  past: Operation[];
+  future: Operation[];
+}
+
+export interface RecordOptions {
+  coalesceKey?: string;       // 相同 key 的连续操作会合并为一步（如连续拖拽、连续输入）
+  coalesceWindowMs?: number;
+  maxDepth?: number;          // 历史深度上限，默认不限
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+export const DEFAULT_COALESCE_WINDOW = 1500;
+
+const COLLECTIONS: Collection[] = ['elements', 'connections', 'messages'];
+
+const normalizeEntity = (collection: Collection, entity: Entity): Entity =>
+  collection === 'elements' ? stripTransientFields(entity as CanvasElement) : entity;
+
+const sameEntity = (a: Entity, b: Entity) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * 比较两份文档状态，生成实体级补丁。只比较两侧都提供的集合。
+ */
+export const diffDocuments = (before: Partial<DocumentState>, after: Partial<DocumentState>): EntityPatch[] => {
+  const patches: EntityPatch[] = [];
+  COLLECTIONS.forEach(collection => {
+    const prevList = before[collection] as Entity[] | undefined;
+    const nextList = after[collection] as Entity[] | undefined;
+    if (!prevList || !nextList) return;
+
+    const prevById = new Map(prevList.map((e, index) => [e.id, { entity: normalizeEntity(collection, e), index }]));
+    const nextById = new Map(nextList.map((e, index) => [e.id, { entity: normalizeEntity(collection, e), index }]));
+
+    prevById.forEach(({ entity, index }, id) => {
+      const next = nextById.get(id);
+      if (!next) patches.push({ collection, id, before: entity, after: null, index });
+      else if (!sameEntity(entity, next.entity)) patches.push({ collection, id, before: entity, after: next.entity, index: next.index });
+    });
+    nextById.forEach(({ entity, index }, id) => {
+      if (!prevById.has(id)) patches.push({ collection, id, before: null, after: entity, index });
+    });
+  });
+  return patches;
+};
+
+/**
+ * 应用补丁。恢复卡片时保留其当前的运行时字段，避免打断正在进行的 AI 更新。
+ */
+export const applyPatches = (doc: DocumentState, patches: EntityPatch[], direction: 'forward' | 'backward'): DocumentState => {
+  const next: DocumentState = { elements: [...doc.elements], connections: [...doc.connections], messages: [...doc.messages] };
+  const ordered = direction === 'forward' ? patches : [...patches].reverse();
+
+  ordered.forEach(patch => {
+    const list = next[patch.collection] as Entity[];
+    const target = direction === 'forward' ? patch.after : patch.before;
+    const currentIndex = list.findIndex(e => e.id === patch.id);
+
+    if (!target) {
+      if (currentIndex !== -1) list.splice(currentIndex, 1);
+      return;
+    }
+    if (currentIndex === -1) {
+      list.splice(Math.min(patch.index, list.length), 0, { ...target });
+      return;
+    }
+    const current = list[currentIndex];
+    list[currentIndex] = patch.collection === 'elements'
+      ? { ...target, isLocalUpdating: (current as CanvasElement).isLocalUpdating, localChatInput: (current as CanvasElement).localChatInput } as CanvasElement
+      : { ...target };
+  });
+  return next;
+};
+
+/**
+ * 合并两个补丁序列：每个实体保留最早的 before 与最新的 after，前后一致的实体被丢弃
+ */
+const mergePatches = (earlier: EntityPatch[], later: EntityPatch[]): EntityPatch[] => {
+  const merged = new Map<string, EntityPatch>();
+  [...earlier, ...later].forEach(p => {
+    const key = `${p.collection}:${p.id}`;
+    const existing = merged.get(key);
+    merged.set(key, existing ? { ...existing, after: p.after, index: p.index } : p);
+  });
+  return Array.from(merged.values()).filter(p =>
+    !(p.before === null && p.after === null) && !(p.before && p.after && sameEntity(p.before, p.after))
+  );
+};
+
+/**
+ * 记录一个已发生的操作。与上一步 coalesceKey 相同且在时间窗口内时合并。
+ */
+export const recordOperation = (
+  history: HistoryState,
+  op: Omit<Operation, 'id' | 'timestamp'>,
+  options: RecordOptions = {}
+): HistoryState => {
+  if (op.patches.length === 0) return history;
+  const now = Date.now();
+  const last = history.past[history.past.length - 1];
+  const window = options.coalesceWindowMs ?? DEFAULT_COALESCE_WINDOW;
+
+  if (last && options.coalesceKey && last.coalesceKey === options.coalesceKey && now - last.timestamp <= window) {
+    const patches = mergePatches(last.patches, op.patches);
+    const past = history.past.slice(0, -1);
+    return {
+      past: patches.length > 0 ? [...past, { ...last, patches, timestamp: now }] : past,
+      future: []
+    };
+  }
+
+  const entry: Operation = { ...op, id: crypto.randomUUID(), timestamp: now, coalesceKey: options.coalesceKey };
+  const past = [...history.past, entry];
+  const maxDepth = options.maxDepth ?? Infinity;
+  return { past: past.length > maxDepth ? past.slice(past.length - maxDepth) : past, future: [] };
+};
+
+export const undoOperation = (history: HistoryState, doc: DocumentState): { history: HistoryState; doc: DocumentState } => {
+  const op = history.past[history.past.length - 1];
+  if (!op) return { history, doc };
+  return {
+    history: { past: history.past.slice(0, -1), future: [op, ...history.future] },
+    doc: applyPatches(doc, op.patches, 'backward')
+  };
+};
+
+export const redoOperation = (history: HistoryState, doc: DocumentState): { history: HistoryState; doc: DocumentState } => {
+  const op = history.future[0];
+  if (!op) return { history, doc };
+  return {
+    history: { past: [...history.past, op], future: history.future.slice(1) },
+    doc: applyPatches(doc, op.patches, 'forward')
+  };
+};
+
+/**
+ * 跳转到历史中的任意位置：pastLength 为目标状态下已应用的操作数量
+ */
+export const jumpToOperation = (history: HistoryState, doc: DocumentState, pastLength: number): { history: HistoryState; doc: DocumentState } => {
+  let state = { history, doc };
+  while (state.history.past.length > pastLength) state = undoOperation(state.history, state.doc);
+  while (state.history.past.length < pastLength && state.history.future.length > 0) state = redoOperation(state.history, state.doc);
+  return state;
+};
+
+/**
+ * 历史深度调整时裁剪最早的操作
+ */
+export const trimHistory = (history: HistoryState, maxDepth: number): HistoryState =>
+  history.past.length > maxDepth ? { ...history, past: history.past.slice(history.past.length - maxDepth) } : history;
@@ -1,93 +1,650 @@
+import { CanvasElement, Connection, DiagramType } from "../types";
+import { CardSize, CARD_WIDTH, DEFAULT_CARD_HEIGHT } from "./geometry";
 
-import { CanvasElement, Connection } from "../types";
+/**
+ * Layered (Sugiyama-style) layout for the canvas.
+ *
+ * 1. Cycle breaking  - DFS back edges are reversed so the graph becomes a DAG.
+ * 2. Ranking         - longest-path ranks, with sources pulled next to their successors.
+ * 3. Normalization   - edges spanning several ranks get dummy nodes on every rank in between.
+ * 4. Ordering        - alternating barycenter sweeps; the ordering with the fewest crossings wins.
+ * 5. Coordinates     - ranks are spaced by their widest card, nodes inside a rank are pulled
+ *                      towards their neighbours and compacted without overlaps using measured sizes.
+ *
+ * Each connected component is laid out on its own; components are stacked along the cross axis
+ * and unconnected cards are packed into a grid after them.
+ */
+export type LayoutDirection = 'LR' | 'TB';
+
+export interface LayoutOptions {
+  direction?: LayoutDirection;
+  sizes?: Record<string, CardSize>;
+}
+
+export interface LayoutPosition {
+  id: string;
+  x: number;
+  y: number;
+}
+
+const RANK_GAP = 200;
+const NODE_GAP = 100;
+const DUMMY_GAP = 40;
+const COMPONENT_GAP = 240;
+const DUMMY_SIZE = 20;
+const ORDER_ITERATIONS = 24;
+const COORDINATE_ITERATIONS = 8;
+
+interface Edge {
+  from: string;
+  to: string;
+}
+
+interface LayoutNode {
+  id: string;
+  width: number;
+  height: number;
+  main: number;  // size along the rank axis (width for LR, height for TB)
+  cross: number; // size across the rank axis
+  dummy: boolean;
+}
+
+interface Block {
+  positions: LayoutPosition[];
+  width: number;
+  height: number;
+}
+
+const groupBy = <T,>(items: T[], key: (item: T) => string): Map<string, T[]> => {
+  const map = new Map<string, T[]>();
+  items.forEach(item => {
+    const k = key(item);
+    if (!map.has(k)) map.set(k, []);
+    map.get(k)!.push(item);
+  });
+  return map;
+};
 
 /**
- * Calculates a hierarchical layout for the canvas elements.
- * Root nodes are placed on the left, and children/connected nodes flow to the right.
+ * Splits the graph into weakly connected components, preserving element order.
  */
-export const calculateHierarchicalLayout = (
-  elements: CanvasElement[],
-  connections: Connection[]
-): { id: string; x: number; y: number }[] => {
-  if (elements.length === 0) return [];
+const findComponents = (ids: string[], edges: Edge[]): string[][] => {
+  const parent = new Map(ids.map(id => [id, id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) {
+      parent.set(id, parent.get(parent.get(id)!)!);
+      id = parent.get(id)!;
+    }
+    return id;
+  };
+  edges.forEach(e => parent.set(find(e.from), find(e.to)));
+  return Array.from(groupBy(ids, find).values());
+};
 
-  // 1. Build an adjacency list for outgoing connections
-  const adj: Record<string, string[]> = {};
-  const inDegree: Record<string, number> = {};
-  
-  elements.forEach((el) => {
-    adj[el.id] = [];
-    inDegree[el.id] = 0;
+/**
+ * Reverses DFS back edges. Traversal starts from sources so that the natural flow direction is kept.
+ */
+const breakCycles = (ids: string[], edges: Edge[]): Edge[] => {
+  const outgoing = groupBy(edges, e => e.from);
+  const hasIncoming = new Set(edges.map(e => e.to));
+  const state = new Map<string, 'active' | 'done'>();
+  const reversed = new Set<Edge>();
+
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    (outgoing.get(id) || []).forEach(e => {
+      const s = state.get(e.to);
+      if (s === 'active') reversed.add(e);
+      else if (!s) visit(e.to);
+    });
+    state.set(id, 'done');
+  };
+  [...ids.filter(id => !hasIncoming.has(id)), ...ids].forEach(id => { if (!state.has(id)) visit(id); });
+
+  return edges.map(e => reversed.has(e) ? { from: e.to, to: e.from } : e);
+};
+
+const topologicalOrder = (ids: string[], edges: Edge[]): string[] => {
+  const inDegree = new Map(ids.map(id => [id, 0]));
+  edges.forEach(e => inDegree.set(e.to, inDegree.get(e.to)! + 1));
+  const outgoing = groupBy(edges, e => e.from);
+  const queue = ids.filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    (outgoing.get(id) || []).forEach(e => {
+      inDegree.set(e.to, inDegree.get(e.to)! - 1);
+      if (inDegree.get(e.to) === 0) queue.push(e.to);
+    });
+  }
+  return order;
+};
+
+/**
+ * Longest-path ranking. Sources are then moved as close as possible to their successors,
+ * so a root that only feeds a deep node does not leave a long edge behind.
+ */
+const assignRanks = (order: string[], edges: Edge[]): Map<string, number> => {
+  const incoming = groupBy(edges, e => e.to);
+  const outgoing = groupBy(edges, e => e.from);
+  const rank = new Map<string, number>();
+  order.forEach(id => {
+    const preds = incoming.get(id) || [];
+    rank.set(id, preds.length === 0 ? 0 : Math.max(...preds.map(e => rank.get(e.from)! + 1)));
   });
+  [...order].reverse().forEach(id => {
+    const succs = outgoing.get(id) || [];
+    if ((incoming.get(id) || []).length === 0 && succs.length > 0) {
+      rank.set(id, Math.min(...succs.map(e => rank.get(e.to)!)) - 1);
+    }
+  });
+  const min = Math.min(...Array.from(rank.values()));
+  rank.forEach((r, id) => rank.set(id, r - min));
+  return rank;
+};
 
-  connections.forEach((conn) => {
-    if (adj[conn.fromId] && adj[conn.toId]) {
-      adj[conn.fromId].push(conn.toId);
-      inDegree[conn.toId]++;
+const countCrossings = (layers: string[][], edges: Edge[]): number => {
+  const position = new Map<string, number>();
+  const rankOf = new Map<string, number>();
+  layers.forEach((layer, r) => layer.forEach((id, i) => { position.set(id, i); rankOf.set(id, r); }));
+  let crossings = 0;
+  groupBy(edges, e => String(rankOf.get(e.from))).forEach(layerEdges => {
+    const pairs = layerEdges.map(e => [position.get(e.from)!, position.get(e.to)!]);
+    for (let i = 0; i < pairs.length; i++) {
+      for (let j = i + 1; j < pairs.length; j++) {
+        if ((pairs[i][0] - pairs[j][0]) * (pairs[i][1] - pairs[j][1]) < 0) crossings++;
+      }
     }
   });
+  return crossings;
+};
+
+/**
+ * Barycenter heuristic: alternately sweep down and up, sorting each layer by the mean
+ * position of its neighbours in the fixed adjacent layer.
+ */
+const orderLayers = (initial: string[][], edges: Edge[]): string[][] => {
+  const preds = groupBy(edges, e => e.to);
+  const succs = groupBy(edges, e => e.from);
+  let layers = initial.map(layer => [...layer]);
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countCrossings(layers, edges);
 
-  // 2. Identify root nodes (those with lowest in-degree)
-  // Fix: Removed !el.parentId as it does not exist on type CanvasElement; inDegree check is sufficient for graph roots.
-  const roots = elements.filter(el => inDegree[el.id] === 0);
-  
-  // If no pure roots, just pick the first element as a fallback
-  if (roots.length === 0 && elements.length > 0) {
-    roots.push(elements[0]);
+  const reorder = (layer: string[], fixed: string[], neighbours: (id: string) => string[]) => {
+    const fixedPos = new Map(fixed.map((id, i) => [id, i]));
+    const weights = layer.map((id, i) => {
+      const ns = neighbours(id).filter(n => fixedPos.has(n));
+      return { id, weight: ns.length > 0 ? ns.reduce((sum, n) => sum + fixedPos.get(n)!, 0) / ns.length : i };
+    });
+    return weights.sort((a, b) => a.weight - b.weight).map(w => w.id);
+  };
+
+  for (let iter = 0; iter < ORDER_ITERATIONS && bestCrossings > 0; iter++) {
+    if (iter % 2 === 0) {
+      for (let r = 1; r < layers.length; r++) {
+        layers[r] = reorder(layers[r], layers[r - 1], id => (preds.get(id) || []).map(e => e.from));
+      }
+    } else {
+      for (let r = layers.length - 2; r >= 0; r--) {
+        layers[r] = reorder(layers[r], layers[r + 1], id => (succs.get(id) || []).map(e => e.to));
+      }
+    }
+    const crossings = countCrossings(layers, edges);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = layers.map(layer => [...layer]);
+    }
   }
+  return best;
+};
+
+/**
+ * Places centres as close as possible to their desired positions (least squares) while keeping the
+ * layer order and minimum separations. Solved exactly with pool-adjacent-violators isotonic regression.
+ */
+const resolveOverlaps = (desired: number[], separations: number[]): number[] => {
+  const offsets = [0];
+  separations.forEach((s, i) => offsets.push(offsets[i] + s));
+  const blocks: { sum: number; count: number }[] = [];
+  desired.forEach((d, i) => {
+    blocks.push({ sum: d - offsets[i], count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sum / prev.count <= last.sum / last.count) break;
+      blocks.splice(blocks.length - 2, 2, { sum: prev.sum + last.sum, count: prev.count + last.count });
+    }
+  });
+  const fitted = blocks.flatMap(b => Array(b.count).fill(b.sum / b.count));
+  return fitted.map((v, i) => v + offsets[i]);
+};
 
-  const levels: Record<string, number> = {};
-  const visited = new Set<string>();
+const layoutComponent = (
+  ids: string[], edges: Edge[], nodeOf: (id: string) => LayoutNode, direction: LayoutDirection
+): Block => {
+  const acyclic = breakCycles(ids, edges);
+  const rank = assignRanks(topologicalOrder(ids, acyclic), acyclic);
+  const nodes = new Map(ids.map(id => [id, nodeOf(id)]));
 
-  // BFS to assign levels
-  const queue: { id: string; level: number }[] = roots.map(r => ({ id: r.id, level: 0 }));
-  queue.forEach(q => visited.add(q.id));
+  // Replace long edges with chains of dummy nodes so every edge connects adjacent ranks
+  const layerEdges: Edge[] = [];
+  acyclic.forEach((e, index) => {
+    let prev = e.from;
+    for (let r = rank.get(e.from)! + 1; r < rank.get(e.to)!; r++) {
+      const dummyId = `__dummy-${index}-${r}`;
+      nodes.set(dummyId, { id: dummyId, width: DUMMY_SIZE, height: DUMMY_SIZE, main: DUMMY_SIZE, cross: DUMMY_SIZE, dummy: true });
+      rank.set(dummyId, r);
+      layerEdges.push({ from: prev, to: dummyId });
+      prev = dummyId;
+    }
+    layerEdges.push({ from: prev, to: e.to });
+  });
 
-  let head = 0;
-  while (head < queue.length) {
-    const { id, level } = queue[head++];
-    levels[id] = level;
+  const rankCount = Math.max(...Array.from(rank.values())) + 1;
+  const initial: string[][] = Array.from({ length: rankCount }, () => []);
+  Array.from(nodes.keys()).forEach(id => initial[rank.get(id)!].push(id));
+  const layers = orderLayers(initial, layerEdges);
 
-    (adj[id] || []).forEach(childId => {
-      if (!visited.has(childId)) {
-        visited.add(childId);
-        queue.push({ id: childId, level: level + 1 });
-      }
+  // Rank axis: each rank is as thick as its largest card
+  const rankStart: number[] = [];
+  let cursor = 0;
+  layers.forEach((layer, r) => {
+    rankStart[r] = cursor;
+    cursor += Math.max(...layer.map(id => nodes.get(id)!.main)) + RANK_GAP;
+  });
+
+  // Cross axis: start packed, then pull towards neighbours with alternating sweeps
+  const preds = groupBy(layerEdges, e => e.to);
+  const succs = groupBy(layerEdges, e => e.from);
+  const center = new Map<string, number>();
+  const separationsOf = (layer: string[]) => layer.slice(1).map((id, i) => {
+    const a = nodes.get(layer[i])!;
+    const b = nodes.get(id)!;
+    return (a.cross + b.cross) / 2 + (a.dummy || b.dummy ? DUMMY_GAP : NODE_GAP);
+  });
+  layers.forEach(layer => {
+    const placed = resolveOverlaps(layer.map(() => 0), separationsOf(layer));
+    layer.forEach((id, i) => center.set(id, placed[i]));
+  });
+
+  for (let iter = 0; iter < COORDINATE_ITERATIONS; iter++) {
+    const down = iter % 2 === 0;
+    const sequence = down ? layers.map((_, r) => r) : layers.map((_, r) => layers.length - 1 - r);
+    sequence.forEach(r => {
+      const layer = layers[r];
+      const desired = layer.map(id => {
+        const neighbours = down
+          ? (preds.get(id) || []).map(e => e.from)
+          : (succs.get(id) || []).map(e => e.to);
+        return neighbours.length > 0
+          ? neighbours.reduce((sum, n) => sum + center.get(n)!, 0) / neighbours.length
+          : center.get(id)!;
+      });
+      const placed = resolveOverlaps(desired, separationsOf(layer));
+      layer.forEach((id, i) => center.set(id, placed[i]));
     });
   }
 
-  // Handle orphan nodes
-  elements.forEach(el => {
-    if (levels[el.id] === undefined) {
-      levels[el.id] = 0;
-    }
+  const positions: LayoutPosition[] = [];
+  layers.forEach((layer, r) => layer.forEach(id => {
+    const node = nodes.get(id)!;
+    if (node.dummy) return;
+    const crossStart = center.get(id)! - node.cross / 2;
+    positions.push(direction === 'LR'
+      ? { id, x: rankStart[r], y: crossStart }
+      : { id, x: crossStart, y: rankStart[r] });
+  }));
+  return normalizeBlock(positions, nodeOf);
+};
+
+/**
+ * Unconnected cards are packed into a near-square grid.
+ */
+const layoutGrid = (ids: string[], nodeOf: (id: string) => LayoutNode): Block => {
+  const columns = Math.ceil(Math.sqrt(ids.length));
+  const rows = Math.ceil(ids.length / columns);
+  const sizeAt = (row: number, col: number) => {
+    const id = ids[row * columns + col];
+    if (!id) return { w: 0, h: 0 };
+    return { w: nodeOf(id).width, h: nodeOf(id).height };
+  };
+  const colWidth = Array.from({ length: columns }, (_, c) => Math.max(...Array.from({ length: rows }, (_, r) => sizeAt(r, c).w)));
+  const rowHeight = Array.from({ length: rows }, (_, r) => Math.max(...Array.from({ length: columns }, (_, c) => sizeAt(r, c).h)));
+  const positions = ids.map((id, i) => {
+    const row = Math.floor(i / columns);
+    const col = i % columns;
+    return {
+      id,
+      x: colWidth.slice(0, col).reduce((sum, w) => sum + w + NODE_GAP, 0),
+      y: rowHeight.slice(0, row).reduce((sum, h) => sum + h + NODE_GAP, 0)
+    };
+  });
+  return normalizeBlock(positions, nodeOf);
+};
+
+const normalizeBlock = (positions: LayoutPosition[], nodeOf: (id: string) => LayoutNode): Block => {
+  const minX = Math.min(...positions.map(p => p.x));
+  const minY = Math.min(...positions.map(p => p.y));
+  const shifted = positions.map(p => ({ id: p.id, x: p.x - minX, y: p.y - minY }));
+  return {
+    positions: shifted,
+    width: Math.max(...shifted.map(p => p.x + nodeOf(p.id).width)),
+    height: Math.max(...shifted.map(p => p.y + nodeOf(p.id).height))
+  };
+};
+
+/**
+ * Calculates a layered layout for the canvas elements. Positions are returned with the top-left
+ * corner of the whole layout at (0, 0); callers translate them to where the layout should appear.
+ */
+export const calculateHierarchicalLayout = (
+  elements: CanvasElement[],
+  connections: Connection[],
+  options: LayoutOptions = {}
+): LayoutPosition[] => {
+  if (elements.length === 0) return [];
+  const direction = options.direction || 'LR';
+  const sizes = options.sizes || {};
+
+  const nodeOf = (id: string): LayoutNode => {
+    const width = sizes[id]?.width || CARD_WIDTH;
+    const height = sizes[id]?.height || DEFAULT_CARD_HEIGHT;
+    return direction === 'LR'
+      ? { id, width, height, main: width, cross: height, dummy: false }
+      : { id, width, height, main: height, cross: width, dummy: false };
+  };
+
+  const ids = elements.map(el => el.id);
+  const known = new Set(ids);
+  const seen = new Set<string>();
+  const edges = connections.filter(c => {
+    const key = `${c.fromId}->${c.toId}`;
+    if (c.fromId === c.toId || !known.has(c.fromId) || !known.has(c.toId) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).map(c => ({ from: c.fromId, to: c.toId }));
+
+  const connected = new Set(edges.flatMap(e => [e.from, e.to]));
+  const blocks = findComponents(ids.filter(id => connected.has(id)), edges).map(component => {
+    const members = new Set(component);
+    return layoutComponent(component, edges.filter(e => members.has(e.from)), nodeOf, direction);
   });
+  const isolated = ids.filter(id => !connected.has(id));
+  if (isolated.length > 0) blocks.push(layoutGrid(isolated, nodeOf));
 
-  // 3. Group by levels and calculate coordinates
-  const levelGroups: Record<number, string[]> = {};
-  Object.entries(levels).forEach(([id, level]) => {
-    if (!levelGroups[level]) levelGroups[level] = [];
-    levelGroups[level].push(id);
+  // Stack blocks across the rank axis: below each other for LR, side by side for TB
+  const positions: LayoutPosition[] = [];
+  let cursor = 0;
+  blocks.forEach(block => {
+    block.positions.forEach(p => positions.push(direction === 'LR'
+      ? { id: p.id, x: Math.round(p.x), y: Math.round(p.y + cursor) }
+      : { id: p.id, x: Math.round(p.x + cursor), y: Math.round(p.y) }));
+    cursor += (direction === 'LR' ? block.height : block.width) + COMPONENT_GAP;
   });
+  return positions;
+};
+
+/* ------------------------------------------------------------------------------------------------
+ * Alternative strategies. All of them return top-left positions normalized to (0, 0).
+ * ---------------------------------------------------------------------------------------------- */
 
-  const CARD_WIDTH = 750;
-  const CARD_HEIGHT = 600;
-  const VERTICAL_GAP = 100;
-  const HORIZONTAL_GAP = 200;
+export type LayoutStrategy = 'hierarchical' | 'grid' | 'radial' | 'force' | 'swimlane';
+export type SwimlaneKey = 'level' | 'type';
 
-  const newPositions: { id: string; x: number; y: number }[] = [];
+export interface StrategyOptions extends LayoutOptions {
+  centerId?: string;       // radial: card placed in the middle
+  seed?: number;           // force: PRNG seed, same input + seed gives the same layout
+  groupBy?: SwimlaneKey;   // swimlane: group cards by level or diagram type
+}
+
+const RING_GAP = 160;
+const FORCE_ITERATIONS = 300;
+const FORCE_EDGE_LENGTH = 900;
+const FORCE_GRAVITY = 0.3;
+const OVERLAP_ITERATIONS = 50;
+
+const sizeLookup = (sizes: Record<string, CardSize> = {}) => (id: string) => ({
+  width: sizes[id]?.width || CARD_WIDTH,
+  height: sizes[id]?.height || DEFAULT_CARD_HEIGHT
+});
+
+const normalizePositions = (positions: LayoutPosition[]): LayoutPosition[] => {
+  if (positions.length === 0) return positions;
+  const minX = Math.min(...positions.map(p => p.x));
+  const minY = Math.min(...positions.map(p => p.y));
+  return positions.map(p => ({ id: p.id, x: Math.round(p.x - minX), y: Math.round(p.y - minY) }));
+};
 
-  Object.entries(levelGroups).forEach(([levelStr, ids]) => {
-    const level = parseInt(levelStr);
-    const x = level * (CARD_WIDTH + HORIZONTAL_GAP);
-    const totalHeight = ids.length * CARD_HEIGHT + (ids.length - 1) * VERTICAL_GAP;
-    const startY = -totalHeight / 2;
+// Reading order of the current canvas, so re-running a layout keeps cards roughly where they were
+const readingOrder = (elements: CanvasElement[]) =>
+  [...elements].sort((a, b) => (a.y - b.y) || (a.x - b.x));
 
-    ids.forEach((id, index) => {
-      const y = startY + index * (CARD_HEIGHT + VERTICAL_GAP);
-      newPositions.push({ id, x, y });
+/**
+ * Compact near-square grid, filled in the current reading order.
+ */
+export const calculateGridLayout = (elements: CanvasElement[], options: LayoutOptions = {}): LayoutPosition[] => {
+  if (elements.length === 0) return [];
+  const size = sizeLookup(options.sizes);
+  const nodeOf = (id: string): LayoutNode => ({ id, ...size(id), main: size(id).width, cross: size(id).height, dummy: false });
+  return layoutGrid(readingOrder(elements).map(el => el.id), nodeOf).positions;
+};
+
+/**
+ * Concentric rings around the centre card, one ring per graph distance. Each ring is ordered by the
+ * angle of its parents so branches stay together; unreachable cards form the outermost ring.
+ */
+export const calculateRadialLayout = (
+  elements: CanvasElement[], connections: Connection[], options: StrategyOptions = {}
+): LayoutPosition[] => {
+  if (elements.length === 0) return [];
+  const size = sizeLookup(options.sizes);
+  const ids = elements.map(el => el.id);
+  const neighbours = new Map(ids.map(id => [id, new Set<string>()]));
+  connections.forEach(c => {
+    if (c.fromId === c.toId || !neighbours.has(c.fromId) || !neighbours.has(c.toId)) return;
+    neighbours.get(c.fromId)!.add(c.toId);
+    neighbours.get(c.toId)!.add(c.fromId);
+  });
+  const centerId = options.centerId && neighbours.has(options.centerId)
+    ? options.centerId
+    : ids.reduce((best, id) => neighbours.get(id)!.size > neighbours.get(best)!.size ? id : best, ids[0]);
+
+  // BFS rings
+  const depth = new Map([[centerId, 0]]);
+  const parents = new Map<string, string[]>();
+  const rings: string[][] = [[centerId]];
+  for (let d = 0; rings[d] && rings[d].length > 0; d++) {
+    const next: string[] = [];
+    rings[d].forEach(id => neighbours.get(id)!.forEach(n => {
+      if (!depth.has(n)) { depth.set(n, d + 1); next.push(n); }
+      if (depth.get(n) === d + 1) parents.set(n, [...(parents.get(n) || []), id]);
+    }));
+    if (next.length > 0) rings.push(next);
+  }
+  const unreachable = ids.filter(id => !depth.has(id));
+  if (unreachable.length > 0) rings.push(unreachable);
+
+  // Cards stay axis-aligned while rings are round, so spacing uses the card diagonal
+  const extent = (id: string) => Math.hypot(size(id).width, size(id).height);
+  const angle = new Map([[centerId, 0]]);
+  const radius: number[] = [0];
+  const positions: LayoutPosition[] = [];
+  const place = (id: string, r: number, a: number) =>
+    positions.push({ id, x: r * Math.cos(a) - size(id).width / 2, y: r * Math.sin(a) - size(id).height / 2 });
+  place(centerId, 0, 0);
+
+  rings.slice(1).forEach((ring, i) => {
+    const d = i + 1;
+    const meanParentAngle = (id: string) => {
+      const ps = (parents.get(id) || []).filter(p => angle.has(p));
+      return ps.length > 0 ? ps.reduce((sum, p) => sum + angle.get(p)!, 0) / ps.length : Infinity;
+    };
+    const ordered = [...ring].sort((a, b) => meanParentAngle(a) - meanParentAngle(b));
+    const circumference = ordered.reduce((sum, id) => sum + extent(id) + NODE_GAP, 0);
+    const previousExtent = Math.max(...rings[d - 1].map(extent));
+    radius[d] = Math.max(
+      circumference / (2 * Math.PI),
+      radius[d - 1] + previousExtent / 2 + Math.max(...ordered.map(extent)) / 2 + RING_GAP
+    );
+    // Start the ring at the first parent's angle so the first branch points the same way as its parent
+    const start = Number.isFinite(meanParentAngle(ordered[0])) ? meanParentAngle(ordered[0]) : -Math.PI / 2;
+    let travelled = 0;
+    ordered.forEach(id => {
+      const a = start + ((travelled + (extent(id) + NODE_GAP) / 2) / circumference) * Math.PI * 2;
+      travelled += extent(id) + NODE_GAP;
+      angle.set(id, a);
+      place(id, radius[d], a);
     });
   });
+  return normalizePositions(positions);
+};
+
+// mulberry32: small deterministic PRNG so the force layout is reproducible
+const createRandom = (seed: number) => () => {
+  seed |= 0; seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
 
-  return newPositions;
+/**
+ * Pushes overlapping rectangles apart along the axis of least overlap until none overlap.
+ */
+const separateOverlaps = (centers: Map<string, { x: number; y: number }>, size: (id: string) => CardSize) => {
+  const ids = Array.from(centers.keys());
+  for (let iter = 0; iter < OVERLAP_ITERATIONS; iter++) {
+    let moved = false;
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = centers.get(ids[i])!;
+        const b = centers.get(ids[j])!;
+        const overlapX = (size(ids[i]).width + size(ids[j]).width) / 2 + NODE_GAP / 2 - Math.abs(a.x - b.x);
+        const overlapY = (size(ids[i]).height + size(ids[j]).height) / 2 + NODE_GAP / 2 - Math.abs(a.y - b.y);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+        moved = true;
+        if (overlapX < overlapY) {
+          const shift = (overlapX / 2) * (a.x <= b.x ? 1 : -1);
+          a.x -= shift; b.x += shift;
+        } else {
+          const shift = (overlapY / 2) * (a.y <= b.y ? 1 : -1);
+          a.y -= shift; b.y += shift;
+        }
+      }
+    }
+    if (!moved) break;
+  }
+};
+
+/**
+ * Seeded Fruchterman-Reingold simulation on card centres, followed by an overlap removal pass.
+ */
+export const calculateForceLayout = (
+  elements: CanvasElement[], connections: Connection[], options: StrategyOptions = {}
+): LayoutPosition[] => {
+  if (elements.length === 0) return [];
+  const size = sizeLookup(options.sizes);
+  const random = createRandom(options.seed ?? 1);
+  const ids = elements.map(el => el.id);
+  const known = new Set(ids);
+  const edges = connections.filter(c => c.fromId !== c.toId && known.has(c.fromId) && known.has(c.toId));
+
+  const k = FORCE_EDGE_LENGTH;
+  const spread = k * Math.sqrt(ids.length);
+  const pos = new Map(ids.map(id => [id, { x: random() * spread, y: random() * spread }]));
+  let temperature = spread / 4;
+
+  for (let iter = 0; iter < FORCE_ITERATIONS; iter++) {
+    const disp = new Map(ids.map(id => [id, { x: 0, y: 0 }]));
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = pos.get(ids[i])!;
+        const b = pos.get(ids[j])!;
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        let dist = Math.hypot(dx, dy);
+        if (dist < 0.01) { dx = random() - 0.5; dy = random() - 0.5; dist = Math.hypot(dx, dy); }
+        const force = (k * k) / dist;
+        const da = disp.get(ids[i])!;
+        const db = disp.get(ids[j])!;
+        da.x += (dx / dist) * force; da.y += (dy / dist) * force;
+        db.x -= (dx / dist) * force; db.y -= (dy / dist) * force;
+      }
+    }
+    // Weak pull towards the centroid keeps disconnected components from drifting apart
+    const cx = ids.reduce((sum, id) => sum + pos.get(id)!.x, 0) / ids.length;
+    const cy = ids.reduce((sum, id) => sum + pos.get(id)!.y, 0) / ids.length;
+    ids.forEach(id => {
+      const p = pos.get(id)!;
+      const d = disp.get(id)!;
+      const dist = Math.hypot(p.x - cx, p.y - cy);
+      d.x -= (p.x - cx) * FORCE_GRAVITY * dist / k;
+      d.y -= (p.y - cy) * FORCE_GRAVITY * dist / k;
+    });
+    edges.forEach(e => {
+      const a = pos.get(e.fromId)!;
+      const b = pos.get(e.toId)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const dist = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (dist * dist) / k;
+      const da = disp.get(e.fromId)!;
+      const db = disp.get(e.toId)!;
+      da.x -= (dx / dist) * force; da.y -= (dy / dist) * force;
+      db.x += (dx / dist) * force; db.y += (dy / dist) * force;
+    });
+    ids.forEach(id => {
+      const d = disp.get(id)!;
+      const length = Math.max(Math.hypot(d.x, d.y), 0.01);
+      const p = pos.get(id)!;
+      p.x += (d.x / length) * Math.min(length, temperature);
+      p.y += (d.y / length) * Math.min(length, temperature);
+    });
+    temperature *= 0.98;
+  }
+
+  separateOverlaps(pos, size);
+  return normalizePositions(ids.map(id => ({
+    id, x: pos.get(id)!.x - size(id).width / 2, y: pos.get(id)!.y - size(id).height / 2
+  })));
+};
+
+/**
+ * Swimlanes: one row per level (or diagram type), cards ordered left to right by their current x.
+ */
+export const calculateSwimlaneLayout = (elements: CanvasElement[], options: StrategyOptions = {}): LayoutPosition[] => {
+  if (elements.length === 0) return [];
+  const size = sizeLookup(options.sizes);
+  const typeOrder = Object.values(DiagramType) as string[];
+  const keyOf = (el: CanvasElement) => options.groupBy === 'type' ? typeOrder.indexOf(el.type) : el.level;
+  const lanes = Array.from(groupBy(elements, el => String(keyOf(el))).entries())
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([, lane]) => [...lane].sort((a, b) => a.x - b.x));
+
+  const positions: LayoutPosition[] = [];
+  let y = 0;
+  lanes.forEach(lane => {
+    let x = 0;
+    lane.forEach(el => {
+      positions.push({ id: el.id, x, y });
+      x += size(el.id).width + NODE_GAP;
+    });
+    y += Math.max(...lane.map(el => size(el.id).height)) + RANK_GAP;
+  });
+  return positions;
+};
+
+/**
+ * Single entry point used by `/layout <strategy>`.
+ */
+export const runLayoutStrategy = (
+  strategy: LayoutStrategy, elements: CanvasElement[], connections: Connection[], options: StrategyOptions = {}
+): LayoutPosition[] => {
+  switch (strategy) {
+    case 'grid': return calculateGridLayout(elements, options);
+    case 'radial': return calculateRadialLayout(elements, connections, options);
+    case 'force': return calculateForceLayout(elements, connections, options);
+    case 'swimlane': return calculateSwimlaneLayout(elements, options);
+    default: return calculateHierarchicalLayout(elements, connections, options);
+  }
 };
@@ -0,0 +1,196 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import { mockProvider } from "./mockProvider";
+
+/**
+ * 大模型接入层：各智能体通过统一的 Provider 接口调用模型，服务商与模型按智能体单独配置。
+ * 支持 Gemini、OpenAI 兼容接口（如本地模型服务）以及离线、结果确定的 Mock，
+ * 便于在隔离网络环境中使用与可复现的测试。
+ */
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+export type AgentTask = 'classify' | 'generate' | 'modify' | 'review' | 'vision' | 'relation' | 'repair';
+
+// 与服务商无关的 JSON Schema 子集，由各 Provider 转换为自身的结构化输出格式
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface LLMImage {
+  data: string; // base64，不含 data: 前缀
+  mimeType: string;
+}
+
+export interface LLMRequest {
+  task: AgentTask;
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  images?: LLMImage[];
+  responseSchema?: JsonSchema; // 提供时要求模型以符合该结构的 JSON 返回
+  signal?: AbortSignal;
+  args?: Record<string, unknown>; // 智能体的结构化入参，供 Mock 生成确定性结果
+}
+
+export interface LLMProvider {
+  kind: ProviderKind;
+  generate: (request: LLMRequest) => Promise<string>;
+  // 流式生成：每收到一段输出时以累计文本回调，结束后返回完整文本
+  stream: (request: LLMRequest, onText: (text: string) => void) => Promise<string>;
+}
+
+/**
+ * 智能体调用失败的类型化错误：config 配置缺失，request 请求失败，invalid_output 输出经重试仍不符合契约，aborted 已取消
+ */
+export type AgentErrorKind = 'config' | 'request' | 'invalid_output' | 'aborted';
+
+export class AgentError extends Error {
+  constructor(message: string, public readonly task: AgentTask, public readonly kind: AgentErrorKind, public readonly attempts = 1) {
+    super(message);
+    this.name = 'AgentError';
+  }
+}
+
+export interface AgentModelConfig {
+  provider: ProviderKind;
+  model: string;
+}
+
+export interface LLMSettings {
+  gemini: { apiKey: string };
+  openai: { baseUrl: string; apiKey: string };
+  agents: Record<AgentTask, AgentModelConfig>;
+}
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI 兼容接口',
+  mock: 'Mock（离线）'
+};
+
+export const AGENT_TASKS: { id: AgentTask; label: string; desc: string }[] = [
+  { id: 'classify', label: '分类规划', desc: '解构输入并生成模块规划树' },
+  { id: 'generate', label: '绘图生成', desc: '为每个模块流式生成 Mermaid 代码' },
+  { id: 'modify', label: '卡片微调', desc: '按指令修改单张图表' },
+  { id: 'repair', label: '语法修复', desc: '根据解析错误修正代码' },
+  { id: 'review', label: '架构审计', desc: '审阅画布并给出优化建议' },
+  { id: 'vision', label: '视觉解构', desc: '识别图片中的架构（需支持图片输入）' },
+  { id: 'relation', label: '关系推断', desc: '推断两张图表之间的连线标签' }
+];
+
+const sameModelForAll = (model: string) =>
+  Object.fromEntries(AGENT_TASKS.map(t => [t.id, model])) as Record<AgentTask, string>;
+
+// 各服务商下每个智能体的默认模型；OpenAI 兼容接口的模型名因部署而异，默认取环境变量
+export const DEFAULT_MODELS: Record<ProviderKind, Record<AgentTask, string>> = {
+  gemini: {
+    classify: 'gemini-3-pro-preview', generate: 'gemini-3-flash-preview', modify: 'gemini-3-pro-preview',
+    repair: 'gemini-3-flash-preview', review: 'gemini-3-pro-preview', vision: 'gemini-3-pro-preview', relation: 'gemini-3-flash-preview'
+  },
+  openai: sameModelForAll(process.env.OPENAI_MODEL || ''),
+  mock: sameModelForAll('fixture')
+};
+
+const isProviderKind = (value: unknown): value is ProviderKind =>
+  value === 'gemini' || value === 'openai' || value === 'mock';
+
+/**
+ * 默认配置来自构建时环境变量：LLM_PROVIDER 指定所有智能体的默认服务商（未指定时为 Gemini）
+ */
+export const createDefaultSettings = (): LLMSettings => {
+  const provider: ProviderKind = isProviderKind(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : 'gemini';
+  return {
+    gemini: { apiKey: process.env.API_KEY || '' },
+    openai: { baseUrl: process.env.OPENAI_BASE_URL || '', apiKey: process.env.OPENAI_API_KEY || '' },
+    agents: Object.fromEntries(AGENT_TASKS.map(t => [t.id, { provider, model: DEFAULT_MODELS[provider][t.id] }])) as Record<AgentTask, AgentModelConfig>
+  };
+};
+
+/**
+ * 合并持久化的配置与默认值，忽略无法识别的字段（兼容旧版本或被手动修改过的存储）
+ */
+export const normalizeSettings = (raw: unknown): LLMSettings => {
+  const defaults = createDefaultSettings();
+  if (!raw || typeof raw !== 'object') return defaults;
+  const value = raw as Partial<LLMSettings>;
+  const text = (v: unknown, fallback: string) => typeof v === 'string' ? v : fallback;
+  return {
+    gemini: { apiKey: text(value.gemini?.apiKey, defaults.gemini.apiKey) },
+    openai: {
+      baseUrl: text(value.openai?.baseUrl, defaults.openai.baseUrl),
+      apiKey: text(value.openai?.apiKey, defaults.openai.apiKey)
+    },
+    agents: Object.fromEntries(AGENT_TASKS.map(({ id }) => {
+      const agent = value.agents?.[id];
+      const provider = isProviderKind(agent?.provider) ? agent.provider : defaults.agents[id].provider;
+      return [id, { provider, model: text(agent?.model, DEFAULT_MODELS[provider][id]) }];
+    })) as Record<AgentTask, AgentModelConfig>
+  };
+};
+
+let settings: LLMSettings = createDefaultSettings();
+
+export const getLLMSettings = (): LLMSettings => settings;
+
+export const setLLMSettings = (next: LLMSettings) => {
+  settings = next;
+};
+
+export const agentLabel = (task: AgentTask): string => AGENT_TASKS.find(t => t.id === task)?.label ?? task;
+
+const resolveProvider = (task: AgentTask): { provider: LLMProvider; model: string } => {
+  const { provider, model } = settings.agents[task];
+  switch (provider) {
+    case 'gemini':
+      if (!settings.gemini.apiKey) throw new AgentError('未配置 Gemini API Key，请在模型设置中填写或切换服务商', task, 'config');
+      return { provider: createGeminiProvider(settings.gemini.apiKey), model };
+    case 'openai':
+      if (!settings.openai.baseUrl) throw new AgentError('未配置 OpenAI 兼容接口地址，请在模型设置中填写', task, 'config');
+      if (!model) throw new AgentError(`未为「${agentLabel(task)}」配置模型名称`, task, 'config');
+      return { provider: createOpenAIProvider(settings.openai.baseUrl, settings.openai.apiKey), model };
+    case 'mock':
+      return { provider: mockProvider, model };
+  }
+};
+
+// 服务商抛出的各类异常统一转换为 AgentError
+const toAgentError = (err: unknown, task: AgentTask, signal?: AbortSignal): AgentError => {
+  if (err instanceof AgentError) return err;
+  if (signal?.aborted || (err as Error)?.name === 'AbortError') return new AgentError('请求已取消', task, 'aborted');
+  return new AgentError((err as Error)?.message || String(err), task, 'request');
+};
+
+export const callAgent = async (task: AgentTask, request: Omit<LLMRequest, 'task' | 'model'>): Promise<string> => {
+  const { provider, model } = resolveProvider(task);
+  try {
+    return await provider.generate({ ...request, task, model });
+  } catch (err) {
+    throw toAgentError(err, task, request.signal);
+  }
+};
+
+export const streamAgent = async (task: AgentTask, request: Omit<LLMRequest, 'task' | 'model'>, onText: (text: string) => void): Promise<string> => {
+  const { provider, model } = resolveProvider(task);
+  try {
+    return await provider.stream({ ...request, task, model }, onText);
+  } catch (err) {
+    throw toAgentError(err, task, request.signal);
+  }
+};
+
+/**
+ * 面向用户的失败说明；非 AgentError 时以 fallback 作为前缀
+ */
+export const describeAgentError = (err: unknown, fallback: string): string => {
+  if (!(err instanceof AgentError)) return `${fallback}：${(err as Error)?.message || String(err)}`;
+  const label = agentLabel(err.task);
+  switch (err.kind) {
+    case 'config': return `${label}不可用：${err.message}`;
+    case 'request': return `${label}请求失败：${err.message}`;
+    case 'invalid_output': return `${label}的输出经 ${err.attempts} 次尝试仍不符合格式要求（${err.message}）`;
+    case 'aborted': return `${label}已取消`;
+  }
+};
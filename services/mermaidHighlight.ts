@@ -0,0 +1,47 @@
+/**
+ * 轻量的 Mermaid 语法高亮：按行切分为注释、关键字、连线、字符串与节点文本等记号
+ */
+export type TokenKind = 'comment' | 'keyword' | 'arrow' | 'string' | 'label' | 'text';
+
+export interface HighlightToken {
+  kind: TokenKind;
+  text: string;
+}
+
+const KEYWORDS = [
+  'graph', 'flowchart', 'sequenceDiagram', 'classDiagram', 'stateDiagram', 'stateDiagram-v2', 'erDiagram',
+  'gantt', 'pie', 'mindmap', 'timeline', 'journey', 'gitGraph', 'quadrantChart',
+  'subgraph', 'end', 'direction', 'participant', 'actor', 'loop', 'alt', 'else', 'opt', 'par', 'and',
+  'critical', 'break', 'rect', 'note', 'Note', 'over', 'left of', 'right of', 'activate', 'deactivate',
+  'class', 'classDef', 'style', 'linkStyle', 'click', 'state', 'title', 'section', 'dateFormat', 'axisFormat',
+  'TD', 'TB', 'BT', 'LR', 'RL'
+];
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 依次匹配：注释、字符串、括号中的节点文本、连线、关键字
+const TOKEN_PATTERN = new RegExp([
+  '(%%.*$)',
+  '("[^"]*")',
+  '(\\[[^\\]]*\\]|\\([^)]*\\)|\\{[^}]*\\})',
+  '(<?[-=.]{2,}[>xo]?|-->>|->>|-\\)|--x|-x|\\|[^|]*\\|)',
+  `(\\b(?:${KEYWORDS.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|')})\\b)`
+].join('|'), 'g');
+
+const KINDS: TokenKind[] = ['comment', 'string', 'label', 'arrow', 'keyword'];
+
+export const highlightMermaidLine = (line: string): HighlightToken[] => {
+  const tokens: HighlightToken[] = [];
+  let last = 0;
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(line))) {
+    if (match[0].length === 0) { TOKEN_PATTERN.lastIndex++; continue; }
+    if (match.index > last) tokens.push({ kind: 'text', text: line.slice(last, match.index) });
+    const group = match.slice(1).findIndex(g => g !== undefined);
+    tokens.push({ kind: KINDS[group], text: match[0] });
+    last = match.index + match[0].length;
+  }
+  if (last < line.length) tokens.push({ kind: 'text', text: line.slice(last) });
+  return tokens;
+};
@@ -0,0 +1,114 @@
+import { DiagramType } from "../types";
+
+/**
+ * 从 .mmd / Markdown 文件中解析 Mermaid 图表
+ */
+export interface ImportedDiagram {
+  title: string;
+  level: number;
+  type: DiagramType;
+  mermaidCode: string;
+  recognizedType: boolean; // 图表头是否属于已支持的 DiagramType
+  source: string;          // 来源文件名
+}
+
+export const MERMAID_FILE_PATTERN = /\.(mmd|mermaid|md|markdown)$/i;
+
+const HEADER_TYPES: [RegExp, DiagramType][] = [
+  [/^(flowchart|graph)\b/, DiagramType.FLOWCHART],
+  [/^sequenceDiagram\b/, DiagramType.SEQUENCE],
+  [/^gantt\b/, DiagramType.GANTT],
+  [/^mindmap\b/, DiagramType.MINDMAP]
+];
+
+/**
+ * 跳过 frontmatter、注释与 %%{init}%% 指令后，根据首个有效行判断图表类型。
+ * 无法识别的头部（如 classDiagram）仍按流程图卡片导入，由 Mermaid 自行渲染。
+ */
+export const detectDiagramType = (code: string): { type: DiagramType; recognized: boolean; header: string } => {
+  const lines = code.split('\n').map(l => l.trim());
+  let i = 0;
+  if (lines[0] === '---') {
+    i = lines.indexOf('---', 1) + 1;
+    if (i === 0) i = lines.length;
+  }
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line || line.startsWith('%%')) continue;
+    const hit = HEADER_TYPES.find(([pattern]) => pattern.test(line));
+    return { type: hit ? hit[1] : DiagramType.FLOWCHART, recognized: !!hit, header: line.split(/\s+/)[0] };
+  }
+  return { type: DiagramType.FLOWCHART, recognized: false, header: '' };
+};
+
+const frontmatterTitle = (code: string): string | null => {
+  const match = code.match(/^---\s*\n([\s\S]*?)\n---/);
+  const title = match?.[1].match(/^title:\s*(.+)$/m);
+  return title ? title[1].trim().replace(/^["']|["']$/g, '') : null;
+};
+
+const baseName = (filename: string) => filename.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+
+const toDiagram = (code: string, title: string, level: number, source: string): ImportedDiagram => {
+  const { type, recognized } = detectDiagramType(code);
+  return { title, level, type, mermaidCode: code.trim(), recognizedType: recognized, source };
+};
+
+/**
+ * .mmd：整个文件即一张图。标题优先取 frontmatter 的 title，其次是首行 `%% 标题` 注释（与 /export mmd 的输出对应），最后用文件名。
+ */
+const parseMermaidFile = (text: string, filename: string): ImportedDiagram[] => {
+  const code = text.trim();
+  if (!code) return [];
+  const comment = code.match(/^%%(?!\{)\s*(.+)$/m);
+  const firstLine = code.split('\n')[0];
+  const title = frontmatterTitle(code) ?? (comment && firstLine.startsWith('%%') ? comment[1].trim() : null) ?? baseName(filename);
+  return [toDiagram(code, title, 1, filename)];
+};
+
+/**
+ * Markdown：提取每个 ```mermaid / ~~~mermaid 代码块，标题取其上方最近的标题行，层级取标题深度。
+ */
+const parseMarkdown = (text: string, filename: string): ImportedDiagram[] => {
+  const lines = text.split(/\r?\n/);
+  const diagrams: ImportedDiagram[] = [];
+  const perHeading = new Map<string, number>();
+  let heading: { text: string; depth: number } | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const headingMatch = lines[i].match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (headingMatch) {
+      heading = { text: headingMatch[2], depth: headingMatch[1].length };
+      continue;
+    }
+
+    const open = lines[i].match(/^\s*(`{3,}|~{3,})\s*mermaid\b/i);
+    if (!open) continue;
+
+    const fenceChar = open[1][0];
+    const fenceLength = open[1].length;
+    const body: string[] = [];
+    let j = i + 1;
+    for (; j < lines.length; j++) {
+      const close = lines[j].match(/^\s*(`{3,}|~{3,})\s*$/);
+      if (close && close[1][0] === fenceChar && close[1].length >= fenceLength) break;
+      body.push(lines[j]);
+    }
+    i = j;
+
+    const code = body.join('\n');
+    if (!code.trim()) continue;
+
+    const baseTitle = frontmatterTitle(code) ?? heading?.text ?? baseName(filename);
+    const count = (perHeading.get(baseTitle) ?? 0) + 1;
+    perHeading.set(baseTitle, count);
+    const title = count > 1 ? `${baseTitle} (${count})` : baseTitle;
+    // 文档标题（#）通常是工程名，模块从 ## 开始算作第 1 层
+    const level = heading ? Math.max(1, heading.depth - 1) : 1;
+    diagrams.push(toDiagram(code, title, level, filename));
+  }
+  return diagrams;
+};
+
+export const parseMermaidDocument = (text: string, filename: string): ImportedDiagram[] =>
+  /\.(md|markdown)$/i.test(filename) ? parseMarkdown(text, filename) : parseMermaidFile(text, filename);
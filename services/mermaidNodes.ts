@@ -0,0 +1,255 @@
+/**
+ * Mermaid 节点提取与定向编辑：从源码中识别节点（流程图/状态图/类图按 id，时序图按参与者，
+ * 思维导图与甘特图按行），并提供重命名、删除等只改动相关行的源码变换。
+ */
+export type NodeSyntax = 'flowchart' | 'sequence' | 'mindmap' | 'gantt';
+
+export interface MermaidNode {
+  id: string;
+  label: string;
+  line: number; // 首次出现的行号（0 起）
+}
+
+const FLOW_KEYWORDS = new Set([
+  'graph', 'flowchart', 'stateDiagram', 'stateDiagram-v2', 'classDiagram', 'subgraph', 'end', 'direction',
+  'classDef', 'class', 'style', 'linkStyle', 'click', 'state', 'note', 'as', 'TD', 'TB', 'BT', 'LR', 'RL'
+]);
+const GANTT_KEYWORDS = /^(title|dateFormat|axisFormat|tickInterval|excludes|includes|todayMarker|section|weekday)\b/;
+
+// 节点形状：id 后紧跟的括号，依次尝试较长的开闭符号
+const SHAPES: [string, string][] = [
+  ['(((', ')))'], ['((', '))'], ['([', '])'], ['[[', ']]'], ['[(', ')]'], ['[/', '/]'], ['[\\', '\\]'],
+  ['{{', '}}'], ['[', ']'], ['(', ')'], ['{', '}'], ['>', ']']
+];
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+// id 可以含单个连字符（如 api-gw），但 A-->B 中的 A 与 B 要能单独匹配
+const ID_BEFORE = '(?<![\\w一-龥]|[\\w一-龥]-)';
+const ID_AFTER = '(?![\\w一-龥]|-[\\w一-龥])';
+const ID_TOKEN = /[A-Za-z_一-龥][\w一-龥]*(?:-[\w一-龥]+)*/g;
+const idPattern = (id: string, flags = '') => new RegExp(`${ID_BEFORE}${escapeRegExp(id)}${ID_AFTER}`, flags);
+const unquote = (s: string) => s.trim().replace(/^"(.*)"$/, '$1').trim();
+
+export const detectNodeSyntax = (code: string): NodeSyntax => {
+  const header = code.split('\n').map(l => l.trim()).find(l => l && !l.startsWith('%%')) || '';
+  if (header.startsWith('sequenceDiagram')) return 'sequence';
+  if (header.startsWith('mindmap')) return 'mindmap';
+  if (header.startsWith('gantt')) return 'gantt';
+  return 'flowchart';
+};
+
+/**
+ * 去掉行中的节点文本、连线文字与注释，只保留 id 与连线符号，避免文本里的单词被误认为节点
+ */
+const stripFlowText = (line: string): string => {
+  let result = line.replace(/%%.*$/, '').replace(/"[^"]*"/g, '""').replace(/\|[^|]*\|/g, '')
+    .replace(/(--|==|-\.)\s[^-=.>]*?\s(-->|==>|\.->|---|===|-\.-)/g, '$2'); // A -- 文本 --> B 形式的连线文字
+  for (const [open, close] of SHAPES) {
+    result = result.split(open).map((part, i) => {
+      if (i === 0) return part;
+      const end = part.indexOf(close);
+      return end === -1 ? open + part : part.slice(end + close.length);
+    }).join('');
+  }
+  return result.replace(/:.*$/, '');
+};
+
+const findFlowDefinition = (line: string, id: string): { open: string; close: string; start: number; end: number } | null => {
+  const match = new RegExp(`${ID_BEFORE}${escapeRegExp(id)}\\s*`, 'g');
+  let m: RegExpExecArray | null;
+  while ((m = match.exec(line))) {
+    const from = m.index + m[0].length;
+    const shape = SHAPES.find(([open]) => line.startsWith(open, from));
+    if (!shape) continue;
+    const end = line.indexOf(shape[1], from + shape[0].length);
+    if (end === -1) continue;
+    return { open: shape[0], close: shape[1], start: from + shape[0].length, end };
+  }
+  return null;
+};
+
+const extractFlowNodes = (lines: string[]): MermaidNode[] => {
+  const nodes = new Map<string, MermaidNode>();
+  const isClassDiagram = (lines.find(l => l.trim() && !l.trim().startsWith('%%')) || '').trim().startsWith('classDiagram');
+  let inBlock = false; // 类图成员、ER 实体属性等花括号块内的行不是节点
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('%%')) return;
+    if (inBlock) {
+      if (trimmed.startsWith('}')) inBlock = false;
+      return;
+    }
+    if (trimmed.endsWith('{')) inBlock = true;
+    const first = trimmed.split(/\s+/)[0];
+    if (isClassDiagram && first === 'class') {
+      const name = trimmed.split(/\s+/)[1]?.replace(/[{~].*$/, '');
+      if (name && !nodes.has(name)) nodes.set(name, { id: name, label: name, line: index });
+      return;
+    }
+    if (['subgraph', 'classDef', 'class', 'style', 'linkStyle', 'click', 'direction', 'note'].includes(first)) return;
+
+    const ids = stripFlowText(trimmed.replace(/\{$/, '')).match(ID_TOKEN) || [];
+    ids.forEach(id => {
+      if (FLOW_KEYWORDS.has(id) || /^(o|x)$/.test(id)) return;
+      const def = findFlowDefinition(line, id);
+      const label = def ? unquote(line.slice(def.start, def.end)) : undefined;
+      const existing = nodes.get(id);
+      if (!existing) nodes.set(id, { id, label: label || id, line: index });
+      else if (label && existing.label === id) existing.label = label;
+    });
+  });
+  return Array.from(nodes.values());
+};
+
+const extractSequenceNodes = (lines: string[]): MermaidNode[] => {
+  const nodes = new Map<string, MermaidNode>();
+  lines.forEach((line, index) => {
+    const decl = /^\s*(participant|actor)\s+(\S+?)(?:\s+as\s+(.+))?\s*$/.exec(line);
+    if (decl) {
+      if (!nodes.has(decl[2])) nodes.set(decl[2], { id: decl[2], label: decl[3]?.trim() || decl[2], line: index });
+      return;
+    }
+    const message = /^\s*([^\s:+\-]+?)\s*[-=]+>>?[+-]?\s*([^\s:+\-]+?)\s*:/.exec(line) || /^\s*([^\s:]+?)\s*-[)x]\s*([^\s:]+?)\s*:/.exec(line);
+    if (message) {
+      [message[1], message[2]].forEach(id => { if (!nodes.has(id)) nodes.set(id, { id, label: id, line: index }); });
+    }
+  });
+  return Array.from(nodes.values());
+};
+
+const MINDMAP_SHAPE = /^([\w-]*)\s*(?:\(\((.*)\)\)|\((.*)\)|\[(.*)\]|\{\{(.*)\}\}|\)\)(.*)\(\(|\)(.*)\()$/;
+
+const mindmapLabel = (text: string): string => {
+  const m = MINDMAP_SHAPE.exec(text);
+  if (!m) return text;
+  return unquote(m.slice(2).find(g => g !== undefined) || text);
+};
+
+const extractMindmapNodes = (lines: string[]): MermaidNode[] =>
+  lines.flatMap((line, index) => {
+    const text = line.trim();
+    if (index === 0 || !text || text.startsWith('%%') || text.startsWith('::')) return [];
+    const label = mindmapLabel(text);
+    return [{ id: label, label, line: index }];
+  });
+
+const extractGanttNodes = (lines: string[]): MermaidNode[] =>
+  lines.flatMap((line, index) => {
+    const text = line.trim();
+    if (index === 0 || !text || text.startsWith('%%') || GANTT_KEYWORDS.test(text) || !text.includes(':')) return [];
+    const label = text.slice(0, text.indexOf(':')).trim();
+    return label ? [{ id: label, label, line: index }] : [];
+  });
+
+export const extractNodes = (code: string): MermaidNode[] => {
+  if (!code) return [];
+  const lines = code.split('\n');
+  switch (detectNodeSyntax(code)) {
+    case 'sequence': return extractSequenceNodes(lines);
+    case 'mindmap': return extractMindmapNodes(lines);
+    case 'gantt': return extractGanttNodes(lines);
+    default: return extractFlowNodes(lines);
+  }
+};
+
+/**
+ * 写入 CanvasElement.deconstructedElements 的节点名列表（去重，保留出现顺序）
+ */
+export const extractNodeLabels = (code: string): string[] =>
+  Array.from(new Set(extractNodes(code).map(n => n.label)));
+
+const normalizeLabel = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * 将 SVG 中被点击的节点映射回源码节点：优先解析 Mermaid 生成的 DOM id（如 flowchart-A-12），
+ * 否则按显示文本匹配
+ */
+export const resolveClickedNode = (code: string, domId: string, label: string): MermaidNode | null => {
+  const nodes = extractNodes(code);
+  const fromDom = /^(?:flowchart|classId|state|entity)-(.+)-\d+$/.exec(domId);
+  if (fromDom) {
+    const byId = nodes.find(n => n.id === fromDom[1]);
+    if (byId) return byId;
+  }
+  const target = normalizeLabel(label);
+  return nodes.find(n => normalizeLabel(n.label) === target) || nodes.find(n => normalizeLabel(n.id) === target) || null;
+};
+
+const sanitizeLabel = (label: string) => label.replace(/["\n]/g, ' ').trim();
+
+/**
+ * 重命名节点的显示文本；流程图与时序图保留原 id，只改标签
+ */
+export const renameNode = (code: string, node: MermaidNode, newLabel: string): string => {
+  const label = sanitizeLabel(newLabel);
+  const lines = code.split('\n');
+  switch (detectNodeSyntax(code)) {
+    case 'sequence': {
+      const declIndex = lines.findIndex(l => new RegExp(`^\\s*(participant|actor)\\s+${escapeRegExp(node.id)}(\\s|$)`).test(l));
+      if (declIndex !== -1) {
+        lines[declIndex] = lines[declIndex].replace(/^(\s*(?:participant|actor)\s+\S+).*$/, `$1 as ${label}`);
+      } else {
+        // 插在已有参与者声明之后，保持参与者的显示顺序
+        const lastDecl = lines.reduce((last, l, i) => /^\s*(participant|actor)\s/.test(l) ? i : last, 0);
+        const indent = (lines[1] || '').match(/^\s*/)?.[0] || '    ';
+        lines.splice(lastDecl + 1, 0, `${indent}participant ${node.id} as ${label}`);
+      }
+      return lines.join('\n');
+    }
+    case 'mindmap': {
+      const line = lines[node.line];
+      lines[node.line] = line.replace(node.label, label);
+      return lines.join('\n');
+    }
+    case 'gantt': {
+      const line = lines[node.line];
+      lines[node.line] = line.replace(/^(\s*)[^:]*?(\s*:)/, `$1${label}$2`);
+      return lines.join('\n');
+    }
+    default: {
+      for (let i = 0; i < lines.length; i++) {
+        const def = findFlowDefinition(lines[i], node.id);
+        if (def) {
+          lines[i] = lines[i].slice(0, def.start) + `"${label}"` + lines[i].slice(def.end);
+          return lines.join('\n');
+        }
+      }
+      // 没有显式定义形状的节点：在首次出现处补上标签
+      const index = lines.findIndex(l => idPattern(node.id).test(stripFlowText(l)));
+      if (index === -1) return code;
+      lines[index] = lines[index].replace(idPattern(node.id), `${node.id}["${label}"]`);
+      return lines.join('\n');
+    }
+  }
+};
+
+/**
+ * 删除节点：移除定义该节点或引用该节点的行（流程图链式连线 A-->B-->C 会整行移除），
+ * 思维导图连同其子节点一起删除
+ */
+export const deleteNode = (code: string, node: MermaidNode): string => {
+  const lines = code.split('\n');
+  switch (detectNodeSyntax(code)) {
+    case 'mindmap': {
+      const indent = (l: string) => l.match(/^\s*/)![0].length;
+      const base = indent(lines[node.line]);
+      let end = node.line + 1;
+      while (end < lines.length && (lines[end].trim() === '' || indent(lines[end]) > base)) end++;
+      lines.splice(node.line, end - node.line);
+      return lines.join('\n');
+    }
+    case 'gantt':
+      lines.splice(node.line, 1);
+      return lines.join('\n');
+    case 'sequence':
+      return lines.filter((l, i) => i === 0 || !idPattern(node.id).test(l.replace(/:.*$/, ''))).join('\n');
+    default:
+      return lines.filter((l, i) => i === 0 || !idPattern(node.id).test(stripFlowText(l))).join('\n');
+  }
+};
+
+/**
+ * 代码变更后同步卡片的节点列表，供 @提及与搜索定位到具体节点
+ */
+export const syncNodeList = <T extends { mermaidCode: string; deconstructedElements: string[] }>(el: T): T =>
+  ({ ...el, deconstructedElements: extractNodeLabels(el.mermaidCode) });
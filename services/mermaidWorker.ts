@@ -0,0 +1,54 @@
+/**
+ * Mermaid 语法解析 Worker
+ * 解析与校验不依赖 DOM，可在 Worker 中完成；布局与 SVG 生成需要测量文字尺寸，仍由主线程执行。
+ */
+import { extractErrorLine, ParseRequest, ParseResponse } from './mermaidWorkerClient';
+
+// 通过变量引用 CDN 地址，避免打包器尝试解析远程模块
+const MERMAID_URL = 'https://cdn.jsdelivr.net/npm/mermaid@10/dist/mermaid.esm.min.mjs';
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<ParseRequest>) => void) | null;
+  postMessage: (message: ParseResponse) => void;
+};
+
+let mermaidPromise: Promise<any> | null = null;
+
+const loadMermaid = () => {
+  if (!mermaidPromise) {
+    mermaidPromise = import(/* @vite-ignore */ MERMAID_URL).then(mod => {
+      const mermaid = mod.default;
+      mermaid.initialize({ startOnLoad: false, securityLevel: 'loose' });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+};
+
+ctx.onmessage = async (event) => {
+  const { requestId, code } = event.data;
+  let mermaid: any;
+  try {
+    mermaid = await loadMermaid();
+  } catch (err) {
+    // 当前环境无法在 Worker 中加载 Mermaid，由主线程接管
+    ctx.postMessage({ requestId, status: 'unavailable' });
+    return;
+  }
+  try {
+    await mermaid.parse(code);
+    ctx.postMessage({ requestId, status: 'ok' });
+  } catch (err: any) {
+    // 访问 document/window 等 DOM 对象失败说明该图表类型的解析依赖 DOM，而非语法错误
+    if (err instanceof ReferenceError) {
+      ctx.postMessage({ requestId, status: 'needs-dom' });
+      return;
+    }
+    ctx.postMessage({
+      requestId,
+      status: 'error',
+      message: String(err?.message ?? err),
+      line: extractErrorLine(err)
+    });
+  }
+};
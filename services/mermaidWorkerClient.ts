@@ -0,0 +1,93 @@
+import { DiagramError } from "../types";
+
+/**
+ * 主线程侧的 Worker 客户端：把 Mermaid 语法解析派发到 mermaidWorker，
+ * 浏览器不支持 Worker 或 Worker 无法加载 Mermaid 时返回 null，由调用方回退到主线程解析。
+ */
+export interface ParseRequest {
+  requestId: number;
+  code: string;
+}
+
+export interface ParseResponse {
+  requestId: number;
+  status: 'ok' | 'error' | 'unavailable' | 'needs-dom'; // unavailable：Worker 内无法加载 Mermaid；needs-dom：该图表的解析依赖 DOM
+  message?: string;
+  line?: number;
+}
+
+export type ParseResult =
+  | { ok: true }
+  | ({ ok: false } & DiagramError);
+
+const PARSE_TIMEOUT_MS = 10000; // 首次解析需在 Worker 内加载 Mermaid，留足时间
+
+let worker: Worker | null = null;
+let workerBroken = false;
+let nextRequestId = 0;
+const pending = new Map<number, (result: ParseResult | null) => void>();
+
+/**
+ * 从 Mermaid 的解析异常中提取出错行号（1 起）
+ */
+export const extractErrorLine = (err: any): number | undefined => {
+  const loc = err?.hash?.loc?.first_line;
+  if (typeof loc === 'number') return loc;
+  const match = /line (\d+)/i.exec(String(err?.message ?? err));
+  return match ? Number(match[1]) : undefined;
+};
+
+const failAll = () => {
+  workerBroken = true;
+  worker?.terminate();
+  worker = null;
+  pending.forEach(resolve => resolve(null));
+  pending.clear();
+};
+
+const getWorker = (): Worker | null => {
+  if (workerBroken || typeof Worker === 'undefined') return null;
+  if (worker) return worker;
+  try {
+    worker = new Worker(new URL('./mermaidWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    workerBroken = true;
+    return null;
+  }
+  worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+    const { requestId, status, message, line } = event.data;
+    // Worker 内加载 Mermaid 失败：后续请求不再派发，直接回退主线程
+    if (status === 'unavailable') {
+      failAll();
+      return;
+    }
+    const resolve = pending.get(requestId);
+    if (!resolve) return;
+    pending.delete(requestId);
+    if (status === 'ok') resolve({ ok: true });
+    else if (status === 'needs-dom') resolve(null); // 仅这一次回退主线程，Worker 继续可用
+    else resolve({ ok: false, message: message || 'Syntax error', line });
+  };
+  worker.onerror = failAll;
+  return worker;
+};
+
+/**
+ * 在 Worker 中解析 Mermaid 代码。返回 null 表示 Worker 不可用，需要回退到主线程。
+ */
+export const parseInWorker = (code: string): Promise<ParseResult | null> => {
+  const target = getWorker();
+  if (!target) return Promise.resolve(null);
+
+  const requestId = nextRequestId++;
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      if (pending.delete(requestId)) resolve(null);
+    }, PARSE_TIMEOUT_MS);
+    pending.set(requestId, result => {
+      clearTimeout(timer);
+      resolve(result);
+    });
+    target.postMessage({ requestId, code } as ParseRequest);
+  });
+};
@@ -0,0 +1,94 @@
+import { AgentTask, LLMProvider, LLMRequest } from "./llmProvider";
+
+/**
+ * Mock Provider：不访问网络，根据智能体的结构化入参（LLMRequest.args）返回确定性的结果，
+ * 相同输入总是得到相同输出，用于隔离网络环境的演示与可复现的测试。可通过 setMockFixtures 替换任意智能体的返回内容
+ */
+export type MockFixture = (request: LLMRequest) => string;
+
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 16;
+
+const text = (value: unknown, fallback = ''): string => typeof value === 'string' ? value : fallback;
+// Mermaid 标签中的引号、分号等会破坏语法
+const label = (value: string) => value.replace(/"/g, "'").replace(/[;#\n]/g, ' ').slice(0, 40);
+const fenced = (code: string) => `\`\`\`mermaid\n${code}\n\`\`\``;
+
+const diagramFor = (title: string, type: string): string => {
+  switch (type) {
+    case 'sequenceDiagram':
+      return `sequenceDiagram\n  participant U as 用户\n  participant S as ${label(title)}\n  U->>S: 发起请求\n  S-->>U: 返回结果`;
+    case 'mindmap':
+      return `mindmap\n  root((${label(title).replace(/[()]/g, '')}))\n    目标\n    组成\n    约束`;
+    case 'gantt':
+      return `gantt\n  title ${label(title)}\n  dateFormat YYYY-MM-DD\n  section 阶段\n  设计 :a1, 2024-01-01, 7d\n  实施 :after a1, 14d`;
+    default:
+      return `flowchart TD\n  A["${label(title)}"] --> B["输入"]\n  B --> C["处理"]\n  C --> D["输出"]`;
+  }
+};
+
+const DEFAULT_FIXTURES: Record<AgentTask, MockFixture> = {
+  classify: ({ args = {} }) => {
+    const content = text(args.content);
+    const segments = content.split(/[\n。！？；;!?]+/).map(s => s.trim()).filter(Boolean).slice(0, 4);
+    const rule = text(args.customHierarchy);
+    const hierarchy = rule ? rule.split(/\s*[>＞/]\s*/).filter(Boolean) : ['系统', '模块'];
+    const title = (segments[0] || '系统总览').slice(0, 16);
+    return JSON.stringify({
+      projectName: title,
+      hierarchy,
+      nodes: [{
+        title, level: 1, description: segments[0] || content.slice(0, 80), suggestedType: 'mindmap',
+        subCategories: segments.slice(1).map((segment, i) => ({
+          title: segment.slice(0, 16), level: 2, description: segment, suggestedType: i % 2 === 0 ? 'flowchart' : 'sequenceDiagram'
+        }))
+      }]
+    });
+  },
+  generate: ({ args = {} }) => fenced(diagramFor(text(args.title, '模块'), text(args.type, 'flowchart'))),
+  // 追加一行注释，保持图表可解析的同时让差异视图中能看到修改
+  modify: ({ args = {} }) => fenced(`${text(args.code).trimEnd()}\n  %% ${text(args.instruction).replace(/\n/g, ' ')}`),
+  repair: () => fenced(diagramFor('已修复', 'flowchart')),
+  review: ({ args = {} }) => {
+    const titles = Array.isArray(args.titles) ? args.titles.map(t => text(t)) : [];
+    return [
+      '### 审计结论（Mock）',
+      ...titles.map(t => `- 【${t}】：结构清晰，建议补充异常分支与监控指标。`),
+      titles.length === 0 ? '- 画布为空，暂无可审计的模块。' : ''
+    ].filter(Boolean).join('\n');
+  },
+  vision: () => JSON.stringify({ title: '图片解构', suggestedType: 'flowchart', mermaidCode: diagramFor('图片解构', 'flowchart') }),
+  relation: () => JSON.stringify({ label: '关联' })
+};
+
+let fixtures: Record<AgentTask, MockFixture> = { ...DEFAULT_FIXTURES };
+
+export const setMockFixtures = (overrides: Partial<Record<AgentTask, MockFixture>>) => {
+  fixtures = { ...fixtures, ...overrides };
+};
+
+export const resetMockFixtures = () => {
+  fixtures = { ...DEFAULT_FIXTURES };
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('请求已取消', 'AbortError');
+};
+
+export const mockProvider: LLMProvider = {
+  kind: 'mock',
+  generate: async (request) => {
+    throwIfAborted(request.signal);
+    return fixtures[request.task](request);
+  },
+  // 按固定大小分段回放，模拟流式输出
+  stream: async (request, onText) => {
+    const output = fixtures[request.task](request);
+    for (let end = STREAM_CHUNK_SIZE; ; end += STREAM_CHUNK_SIZE) {
+      throwIfAborted(request.signal);
+      onText(output.slice(0, end));
+      if (end >= output.length) return output;
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+    }
+  }
+};
@@ -0,0 +1,87 @@
+import { LLMProvider, LLMRequest } from "./llmProvider";
+
+/**
+ * OpenAI 兼容 Provider：调用 {baseUrl}/chat/completions，适用于 OpenAI 以及 vLLM、Ollama、LM Studio 等本地模型服务。
+ * 结构化输出使用 response_format: json_schema，流式输出解析 SSE
+ */
+const toBody = (request: LLMRequest, stream: boolean) => ({
+  model: request.model,
+  stream,
+  messages: [
+    ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+    {
+      role: 'user',
+      content: request.images?.length
+        ? [
+            ...request.images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+            { type: 'text', text: request.prompt }
+          ]
+        : request.prompt
+    }
+  ],
+  ...(request.responseSchema
+    ? { response_format: { type: 'json_schema', json_schema: { name: request.task, schema: request.responseSchema } } }
+    : {})
+});
+
+// 跳过无法解析的 data 行（代理注入的心跳、被截断的片段等）；内容缺失由输出契约校验兜底
+const parseDelta = (payload: string): string | undefined => {
+  try {
+    return JSON.parse(payload).choices?.[0]?.delta?.content;
+  } catch {
+    return undefined;
+  }
+};
+
+export const createOpenAIProvider = (baseUrl: string, apiKey: string): LLMProvider => {
+  const post = async (request: LLMRequest, stream: boolean): Promise<Response> => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify(toBody(request, stream)),
+      signal: request.signal
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`模型服务返回 ${response.status}${detail ? `：${detail.slice(0, 200)}` : ''}`);
+    }
+    return response;
+  };
+
+  return {
+    kind: 'openai',
+    generate: async (request) => {
+      const data = await (await post(request, false)).json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+    stream: async (request, onText) => {
+      const response = await post(request, true);
+      if (!response.body) throw new Error('模型服务未返回流式内容');
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      const handleLine = (line: string) => {
+        const payload = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || payload === '[DONE]') return;
+        const delta = parseDelta(payload);
+        if (delta) {
+          text += delta;
+          onText(text);
+        }
+      };
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || ''; // 最后一行可能不完整，留到下一段
+        lines.forEach(handleLine);
+      }
+      // 部分服务的最后一行没有换行结尾，结束时冲刷解码器并处理剩余内容
+      buffer += decoder.decode();
+      buffer.split('\n').forEach(handleLine);
+      return text;
+    }
+  };
+};
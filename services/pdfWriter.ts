@@ -0,0 +1,75 @@
+/**
+ * 极简 PDF 生成器：每页铺满一张 JPEG 图像。
+ * 只实现导出所需的最小子集（DCTDecode 图像 + 单一内容流），避免引入额外依赖。
+ */
+export interface PdfImagePage {
+  jpeg: Uint8Array;   // JPEG 原始字节
+  imageWidth: number; // 像素
+  imageHeight: number;
+  pageWidth: number;  // pt (1/72 inch)
+  pageHeight: number;
+}
+
+const encoder = new TextEncoder();
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const createPdfFromImages = (pages: PdfImagePage[]): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (num: number) => {
+    offsets[num] = length;
+    write(`${num} 0 obj\n`);
+  };
+
+  // 对象编号：1 目录，2 页面树，之后每页占用 3 个对象（页面、内容流、图像）
+  const pageObj = (i: number) => 3 + i * 3;
+  const objectCount = 2 + pages.length * 3;
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObj(i)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageNum = pageObj(i);
+    const contentNum = pageNum + 1;
+    const imageNum = pageNum + 2;
+    const w = page.pageWidth.toFixed(2);
+    const h = page.pageHeight.toFixed(2);
+
+    beginObject(pageNum);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im${i} ${imageNum} 0 R >> >> /Contents ${contentNum} 0 R >>\nendobj\n`);
+
+    const content = `q ${w} 0 0 ${h} 0 0 cm /Im${i} Do Q`;
+    beginObject(contentNum);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(imageNum);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.imageWidth} /Height ${page.imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let n = 1; n <= objectCount; n++) write(`${String(offsets[n]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,79 @@
+import { CardSize, Point, Rect, inflateRect, rectsIntersect } from "./geometry";
+import { GRID_SIZE } from "./snapping";
+
+/**
+ * 增量放置：为新卡片寻找不与现有卡片重叠的空位，已有卡片一律不移动。
+ * 优先贴着相关卡片（父模块、上一个同级模块、选中的卡片）摆放，否则围绕锚点（通常是视口中心）螺旋搜索。
+ */
+export type PlacementDirection = 'right' | 'below' | 'left' | 'above';
+
+export interface PlacementOptions {
+  anchor: Point;                      // 没有相关卡片或相关位置都被占用时的搜索中心（卡片中心点）
+  related?: Rect[];
+  directions?: PlacementDirection[];  // 相对相关卡片的尝试顺序
+  gap?: number;
+}
+
+const DEFAULT_GAP = 120;
+const MAX_SEARCH_RINGS = 200;
+
+const isFree = (rect: Rect, obstacles: Rect[], gap: number) => {
+  const padded = inflateRect(rect, gap / 2);
+  return !obstacles.some(o => rectsIntersect(padded, inflateRect(o, gap / 2)));
+};
+
+const besides = (r: Rect, size: CardSize, direction: PlacementDirection, gap: number): Point => {
+  switch (direction) {
+    case 'right': return { x: r.x + r.width + gap, y: r.y };
+    case 'left': return { x: r.x - size.width - gap, y: r.y };
+    case 'below': return { x: r.x, y: r.y + r.height + gap };
+    case 'above': return { x: r.x, y: r.y - size.height - gap };
+  }
+};
+
+/**
+ * 以 center 为中心按网格逐圈向外搜索，返回距离最近的空位（左上角坐标）
+ */
+const spiralSearch = (center: Point, size: CardSize, obstacles: Rect[], gap: number): Point | null => {
+  const origin = { x: center.x - size.width / 2, y: center.y - size.height / 2 };
+  for (let ring = 0; ring <= MAX_SEARCH_RINGS; ring++) {
+    const candidates: Point[] = [];
+    for (let i = -ring; i <= ring; i++) {
+      for (let j = -ring; j <= ring; j++) {
+        if (Math.max(Math.abs(i), Math.abs(j)) !== ring) continue;
+        candidates.push({ x: origin.x + i * GRID_SIZE, y: origin.y + j * GRID_SIZE });
+      }
+    }
+    candidates.sort((a, b) => Math.hypot(a.x - origin.x, a.y - origin.y) - Math.hypot(b.x - origin.x, b.y - origin.y));
+    const hit = candidates.find(p => isFree({ ...p, ...size }, obstacles, gap));
+    if (hit) return hit;
+  }
+  return null;
+};
+
+export const findFreePosition = (size: CardSize, obstacles: Rect[], options: PlacementOptions): Point => {
+  const gap = options.gap ?? DEFAULT_GAP;
+  const related = options.related || [];
+  const directions = options.directions || ['right', 'below', 'left', 'above'];
+
+  for (const r of related) {
+    for (const direction of directions) {
+      const p = besides(r, size, direction, gap);
+      if (isFree({ ...p, ...size }, obstacles, gap)) return p;
+    }
+  }
+
+  // 相关卡片四周都被占用时，从第一个首选方向的位置开始向外搜索，保持与相关卡片的就近关系
+  const center = related.length > 0
+    ? (() => {
+        const p = besides(related[0], size, directions[0], gap);
+        return { x: p.x + size.width / 2, y: p.y + size.height / 2 };
+      })()
+    : options.anchor;
+  const found = spiralSearch(center, size, obstacles, gap);
+  if (found) return found;
+
+  // 搜索范围内都被占满时放到所有内容的右侧
+  const right = obstacles.length > 0 ? Math.max(...obstacles.map(o => o.x + o.width)) + gap : center.x - size.width / 2;
+  return { x: right, y: center.y - size.height / 2 };
+};
@@ -0,0 +1,138 @@
+import { CategoryNode, DiagramType, PlanNode } from "../types";
+
+/**
+ * 规划树：方案以先序排列的扁平数组保存（PlanNode.parentId 指向父节点），
+ * 编辑操作都返回新数组，并根据深度重算 level，保证父节点总在子节点之前、可直接按顺序生成。
+ */
+export interface PlanTreeNode {
+  node: PlanNode;
+  depth: number;
+  children: PlanTreeNode[];
+}
+
+const newPlanNode = (overrides: Partial<PlanNode> = {}): PlanNode => ({
+  id: crypto.randomUUID(),
+  title: '新模块',
+  description: '',
+  level: 1,
+  suggestedType: DiagramType.FLOWCHART,
+  selected: true,
+  ...overrides
+});
+
+/**
+ * 将分类智能体的结果展开为扁平方案：优先使用 subCategories 嵌套，
+ * 没有嵌套时按 level 推断父节点（父节点为之前最近一个层级更浅的节点）
+ */
+export const flattenCategories = (nodes: CategoryNode[]): PlanNode[] => {
+  const result: PlanNode[] = [];
+  const visit = (node: CategoryNode, parentId: string | undefined, stack: PlanNode[]) => {
+    const parent = parentId ?? [...stack].reverse().find(p => p.level < node.level)?.id;
+    const { subCategories, ...rest } = node;
+    const planNode: PlanNode = { ...rest, id: crypto.randomUUID(), selected: true, parentId: parent };
+    result.push(planNode);
+    stack.push(planNode);
+    subCategories?.forEach(child => visit(child, planNode.id, []));
+  };
+  const topStack: PlanNode[] = [];
+  nodes.forEach(node => visit(node, undefined, topStack));
+  return normalizePlan(result);
+};
+
+export const buildPlanTree = (plan: PlanNode[]): PlanTreeNode[] => {
+  const ids = new Set(plan.map(p => p.id));
+  const childrenOf = (parentId: string | undefined, depth: number): PlanTreeNode[] =>
+    plan
+      .filter(p => (p.parentId && ids.has(p.parentId) ? p.parentId : undefined) === parentId)
+      .map(node => ({ node, depth, children: childrenOf(node.id, depth + 1) }));
+  return childrenOf(undefined, 0);
+};
+
+// 层级按在树中的实际位置重算（移动后的子树 depth 已过期）
+const flattenTree = (tree: PlanTreeNode[], parentId?: string, depth = 0): PlanNode[] =>
+  tree.flatMap(t => [{ ...t.node, parentId, level: depth + 1 }, ...flattenTree(t.children, t.node.id, depth + 1)]);
+
+/**
+ * 按树结构重新排成先序并重算层级；指向不存在节点的 parentId 视为顶层
+ */
+export const normalizePlan = (plan: PlanNode[]): PlanNode[] => flattenTree(buildPlanTree(plan));
+
+/**
+ * 节点在本批次中最近的已选祖先，用于生成后建立父子连线
+ */
+export const findSelectedAncestor = (plan: PlanNode[], node: PlanNode): PlanNode | undefined => {
+  const byId = new Map<string, PlanNode>(plan.map(p => [p.id, p]));
+  let current = node.parentId ? byId.get(node.parentId) : undefined;
+  while (current && !current.selected) current = current.parentId ? byId.get(current.parentId) : undefined;
+  return current;
+};
+
+export const updatePlanNode = (plan: PlanNode[], id: string, patch: Partial<PlanNode>): PlanNode[] =>
+  plan.map(p => p.id === id ? { ...p, ...patch } : p);
+
+export const addPlanNode = (plan: PlanNode[], parentId?: string): { plan: PlanNode[]; node: PlanNode } => {
+  const node = newPlanNode({ parentId });
+  return { plan: normalizePlan([...plan, node]), node };
+};
+
+export const removePlanNode = (plan: PlanNode[], id: string): PlanNode[] => {
+  const removed = new Set([id]);
+  // 先序排列保证后代出现在祖先之后，一次遍历即可收集整棵子树
+  plan.forEach(p => { if (p.parentId && removed.has(p.parentId)) removed.add(p.id); });
+  return plan.filter(p => !removed.has(p.id));
+};
+
+const mapSiblings = (
+  tree: PlanTreeNode[], id: string, fn: (siblings: PlanTreeNode[], index: number) => PlanTreeNode[]
+): PlanTreeNode[] => {
+  const index = tree.findIndex(t => t.node.id === id);
+  if (index !== -1) return fn(tree, index);
+  return tree.map(t => ({ ...t, children: mapSiblings(t.children, id, fn) }));
+};
+
+/**
+ * 在同级节点之间上移/下移（连同子树）
+ */
+export const movePlanNode = (plan: PlanNode[], id: string, direction: 'up' | 'down'): PlanNode[] => {
+  const tree = mapSiblings(buildPlanTree(plan), id, (siblings, index) => {
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (target < 0 || target >= siblings.length) return siblings;
+    const next = [...siblings];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  });
+  return flattenTree(tree);
+};
+
+/**
+ * 缩进：成为前一个同级节点的最后一个子节点
+ */
+export const indentPlanNode = (plan: PlanNode[], id: string): PlanNode[] => {
+  const tree = mapSiblings(buildPlanTree(plan), id, (siblings, index) => {
+    if (index === 0) return siblings;
+    const prev = siblings[index - 1];
+    const moved = siblings[index];
+    const next = siblings.filter((_, i) => i !== index);
+    next[index - 1] = { ...prev, children: [...prev.children, moved] };
+    return next;
+  });
+  return flattenTree(tree);
+};
+
+/**
+ * 取消缩进：移出父节点，排在父节点之后
+ */
+export const outdentPlanNode = (plan: PlanNode[], id: string): PlanNode[] => {
+  const node = plan.find(p => p.id === id);
+  if (!node?.parentId) return plan;
+  const parentId = node.parentId;
+  const tree = mapSiblings(buildPlanTree(plan), parentId, (siblings, index) => {
+    const parent = siblings[index];
+    const moved = parent.children.find(c => c.node.id === id)!;
+    const next = [...siblings];
+    next[index] = { ...parent, children: parent.children.filter(c => c.node.id !== id) };
+    next.splice(index + 1, 0, moved);
+    return next;
+  });
+  return flattenTree(tree);
+};
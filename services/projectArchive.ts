@@ -0,0 +1,281 @@
+import { CanvasElement, Connection, DiagramType, THEMES } from "../types";
+
+/**
+ * 工程存档格式（/save 导出、/load 导入）
+ *
+ * 版本历史：
+ * - v0：仅包含卡片数组 `CanvasElement[]`
+ * - v1：`{ elements, connections, view }`，无版本字段
+ * - v2：增加 `format` / `version` / `savedAt`，视图字段规范为 `{ offset, scale }`
+ */
+export const ARCHIVE_FORMAT = 'arch-pro-engine';
+export const ARCHIVE_VERSION = 2;
+
+export interface ArchiveView {
+  offset: { x: number; y: number };
+  scale: number;
+}
+
+export interface ProjectArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  savedAt: number;
+  elements: CanvasElement[];
+  connections: Connection[];
+  view: ArchiveView;
+}
+
+export interface ArchiveIssue {
+  path: string;
+  message: string;
+  action: 'repaired' | 'dropped';
+}
+
+export class ArchiveValidationError extends Error {
+  constructor(message: string, public readonly issues: ArchiveIssue[] = []) {
+    super(message);
+    this.name = 'ArchiveValidationError';
+  }
+}
+
+export const DEFAULT_VIEW: ArchiveView = { offset: { x: 100, y: 100 }, scale: 0.8 };
+
+// 仅在运行时存在、不应写入存档的字段
+const TRANSIENT_ELEMENT_FIELDS = ['isLocalUpdating', 'localChatInput'] as const;
+
+const DIAGRAM_TYPES = Object.values(DiagramType) as string[];
+
+const isRecord = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+/**
+ * 去除运行时字段，得到可持久化的卡片
+ */
+export const stripTransientFields = (el: CanvasElement): CanvasElement => {
+  const clean = { ...el };
+  TRANSIENT_ELEMENT_FIELDS.forEach(key => { delete clean[key]; });
+  return clean;
+};
+
+export const serializeProject = (elements: CanvasElement[], connections: Connection[], view: ArchiveView): ProjectArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  savedAt: Date.now(),
+  elements: elements.map(stripTransientFields),
+  connections: connections.map(c => ({ ...c })),
+  view: { offset: { ...view.offset }, scale: view.scale }
+});
+
+type Migration = (raw: any) => any;
+
+// MIGRATIONS[n] 把版本 n 的数据升级到版本 n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  0: (raw: any[]) => ({ elements: raw, connections: [] }),
+  1: (raw: Record<string, any>) => {
+    const view = isRecord(raw.view) ? raw.view : {};
+    return {
+      format: ARCHIVE_FORMAT,
+      version: 2,
+      savedAt: 0,
+      elements: raw.elements,
+      connections: raw.connections ?? [],
+      view: {
+        // 早期存档可能把 offset 拆成 x / y 平铺在 view 上
+        offset: isRecord(view.offset) ? view.offset : { x: view.x, y: view.y },
+        scale: view.scale
+      }
+    };
+  }
+};
+
+const detectVersion = (raw: unknown): number => {
+  if (Array.isArray(raw)) return 0;
+  if (!isRecord(raw)) throw new ArchiveValidationError('存档根节点必须是对象或卡片数组。');
+  if (raw.version === undefined) return 1;
+  if (!Number.isInteger(raw.version) || raw.version < 0) throw new ArchiveValidationError(`无法识别的存档版本：${String(raw.version)}`);
+  return raw.version;
+};
+
+const validateElement = (raw: unknown, index: number, seenIds: Set<string>, issues: ArchiveIssue[]): CanvasElement | null => {
+  const path = `elements[${index}]`;
+  if (!isRecord(raw)) {
+    issues.push({ path, message: '不是有效的卡片对象', action: 'dropped' });
+    return null;
+  }
+  if (!isNonEmptyString(raw.id)) {
+    issues.push({ path, message: '缺少 id', action: 'dropped' });
+    return null;
+  }
+  if (seenIds.has(raw.id)) {
+    issues.push({ path, message: `id "${raw.id}" 重复`, action: 'dropped' });
+    return null;
+  }
+
+  let type = raw.type;
+  if (!DIAGRAM_TYPES.includes(type)) {
+    const fallback = isNonEmptyString(raw.content) && !isNonEmptyString(raw.mermaidCode) ? DiagramType.NOTE : DiagramType.FLOWCHART;
+    issues.push({ path: `${path}.type`, message: `未知类型 "${String(type)}"，已按 ${fallback} 处理`, action: 'repaired' });
+    type = fallback;
+  }
+  if (type !== DiagramType.NOTE && typeof raw.mermaidCode !== 'string') {
+    issues.push({ path, message: '图表卡片缺少 mermaidCode', action: 'dropped' });
+    return null;
+  }
+
+  const numberField = (key: 'x' | 'y' | 'scale' | 'level', fallback: number) => {
+    if (isFiniteNumber(raw[key])) return raw[key];
+    if (raw[key] !== undefined) issues.push({ path: `${path}.${key}`, message: `无效数值，已重置为 ${fallback}`, action: 'repaired' });
+    else if (key === 'x' || key === 'y') issues.push({ path: `${path}.${key}`, message: `缺失，已设为 ${fallback}`, action: 'repaired' });
+    return fallback;
+  };
+
+  let title = raw.title;
+  if (!isNonEmptyString(title)) {
+    title = '未命名模块';
+    issues.push({ path: `${path}.title`, message: '缺少标题，已设为“未命名模块”', action: 'repaired' });
+  }
+
+  let themeId = raw.themeId;
+  if (!THEMES.some(t => t.id === themeId)) {
+    if (themeId !== undefined) issues.push({ path: `${path}.themeId`, message: `未知主题 "${String(themeId)}"，已使用默认主题`, action: 'repaired' });
+    themeId = THEMES[0].id;
+  }
+
+  seenIds.add(raw.id);
+  const element: CanvasElement = {
+    id: raw.id,
+    type,
+    mermaidCode: typeof raw.mermaidCode === 'string' ? raw.mermaidCode : '',
+    x: numberField('x', 0),
+    y: numberField('y', 0),
+    scale: numberField('scale', 1),
+    title,
+    level: numberField('level', 0),
+    deconstructedElements: Array.isArray(raw.deconstructedElements)
+      ? raw.deconstructedElements.filter((s: unknown) => typeof s === 'string')
+      : [],
+    themeId
+  };
+  if (typeof raw.content === 'string') element.content = raw.content;
+  if (raw.pinned === true) element.pinned = true;
+  return element;
+};
+
+const validateConnection = (
+  raw: unknown, index: number, elementIds: Set<string>, seen: Set<string>, issues: ArchiveIssue[]
+): Connection | null => {
+  const path = `connections[${index}]`;
+  if (!isRecord(raw)) {
+    issues.push({ path, message: '不是有效的连线对象', action: 'dropped' });
+    return null;
+  }
+  for (const key of ['fromId', 'toId'] as const) {
+    if (!isNonEmptyString(raw[key]) || !elementIds.has(raw[key])) {
+      issues.push({ path: `${path}.${key}`, message: `指向不存在的卡片 "${String(raw[key])}"`, action: 'dropped' });
+      return null;
+    }
+  }
+  if (raw.fromId === raw.toId) {
+    issues.push({ path, message: '连线首尾为同一张卡片', action: 'dropped' });
+    return null;
+  }
+  const pairKey = `${raw.fromId}>${raw.toId}`;
+  if (seen.has(pairKey)) {
+    issues.push({ path, message: '与已有连线重复', action: 'dropped' });
+    return null;
+  }
+  seen.add(pairKey);
+
+  let id = raw.id;
+  if (!isNonEmptyString(id)) {
+    id = crypto.randomUUID();
+    issues.push({ path: `${path}.id`, message: '缺少 id，已重新生成', action: 'repaired' });
+  }
+  const connection: Connection = { id, fromId: raw.fromId, toId: raw.toId };
+  if (isNonEmptyString(raw.label)) connection.label = raw.label;
+  return connection;
+};
+
+const validateView = (raw: unknown, issues: ArchiveIssue[]): ArchiveView => {
+  if (!isRecord(raw)) {
+    issues.push({ path: 'view', message: '缺少视图信息，已使用默认视图', action: 'repaired' });
+    return { offset: { ...DEFAULT_VIEW.offset }, scale: DEFAULT_VIEW.scale };
+  }
+  const offset = isRecord(raw.offset) && isFiniteNumber(raw.offset.x) && isFiniteNumber(raw.offset.y)
+    ? { x: raw.offset.x, y: raw.offset.y }
+    : null;
+  if (!offset) issues.push({ path: 'view.offset', message: '无效的视口偏移，已重置', action: 'repaired' });
+
+  let scale = raw.scale;
+  if (!isFiniteNumber(scale) || scale <= 0) {
+    issues.push({ path: 'view.scale', message: '无效的缩放比例，已重置', action: 'repaired' });
+    scale = DEFAULT_VIEW.scale;
+  } else if (scale < 0.05 || scale > 5) {
+    issues.push({ path: 'view.scale', message: `缩放比例 ${scale} 超出范围，已钳制`, action: 'repaired' });
+    scale = Math.min(Math.max(scale, 0.05), 5);
+  }
+  return { offset: offset ?? { ...DEFAULT_VIEW.offset }, scale };
+};
+
+/**
+ * 解析并校验存档文本。致命错误抛出 ArchiveValidationError，
+ * 可修复的问题会被修复或丢弃相应条目，并逐条记录在 issues 中。
+ */
+export const parseProjectArchive = (text: string): { archive: ProjectArchive; issues: ArchiveIssue[]; migratedFrom: number } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new ArchiveValidationError(`文件不是有效的 JSON：${(err as Error).message}`);
+  }
+
+  const migratedFrom = detectVersion(raw);
+  if (migratedFrom > ARCHIVE_VERSION) {
+    throw new ArchiveValidationError(`存档版本 v${migratedFrom} 高于当前支持的 v${ARCHIVE_VERSION}，请升级应用。`);
+  }
+  let data: any = raw;
+  for (let v = migratedFrom; v < ARCHIVE_VERSION; v++) data = MIGRATIONS[v](data);
+
+  if (isRecord(data) && data.format !== undefined && data.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveValidationError(`不支持的存档格式 "${String(data.format)}"。`);
+  }
+  if (!Array.isArray(data.elements)) {
+    throw new ArchiveValidationError('存档缺少 elements 数组。', [{ path: 'elements', message: '缺失或不是数组', action: 'dropped' }]);
+  }
+
+  const issues: ArchiveIssue[] = [];
+  const seenIds = new Set<string>();
+  const elements = data.elements
+    .map((el: unknown, i: number) => validateElement(el, i, seenIds, issues))
+    .filter((el: CanvasElement | null): el is CanvasElement => el !== null);
+
+  let rawConnections = data.connections;
+  if (!Array.isArray(rawConnections)) {
+    issues.push({ path: 'connections', message: '不是数组，已忽略全部连线', action: 'dropped' });
+    rawConnections = [];
+  }
+  const seenPairs = new Set<string>();
+  const connections = rawConnections
+    .map((c: unknown, i: number) => validateConnection(c, i, seenIds, seenPairs, issues))
+    .filter((c: Connection | null): c is Connection => c !== null);
+
+  return {
+    archive: {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      savedAt: isFiniteNumber(data.savedAt) ? data.savedAt : 0,
+      elements,
+      connections,
+      view: validateView(data.view, issues)
+    },
+    issues,
+    migratedFrom
+  };
+};
+
+/**
+ * 把校验问题整理成可读的报告文本
+ */
+export const formatArchiveIssues = (issues: ArchiveIssue[]): string =>
+  issues.map(i => `- ${i.path}：${i.message}（${i.action === 'dropped' ? '已丢弃' : '已修复'}）`).join('\n');
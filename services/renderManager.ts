@@ -1,16 +1,103 @@
 
 import mermaid from 'https://cdn.jsdelivr.net/npm/mermaid@10/dist/mermaid.esm.min.mjs';
+import { extractErrorLine, parseInWorker, ParseResult } from './mermaidWorkerClient';
+
+/**
+ * 渲染任务被新的请求取代或被主动取消时抛出，调用方应静默忽略
+ */
+export class RenderCancelledError extends Error {
+  constructor(id: string) {
+    super(`Render of ${id} was cancelled`);
+    this.name = 'RenderCancelledError';
+  }
+}
+
+/**
+ * Mermaid 语法错误，line 为出错行号（1 起，可能缺失）
+ */
+export class MermaidSyntaxError extends Error {
+  line?: number;
+  constructor(message: string, line?: number) {
+    super(message);
+    this.name = 'MermaidSyntaxError';
+    this.line = line;
+  }
+}
+
+export interface RenderOptions {
+  priority?: number; // 越小越先渲染：可见卡片按到视口中心的距离，不可见卡片排在最后
+}
+
+export interface RenderMetrics {
+  renders: number;
+  cacheHits: number;
+  cacheMisses: number;
+  cancelled: number;
+  failures: number;
+  evictions: number;
+  workerParses: number;
+  mainThreadParses: number;
+  lastRenderMs: number;
+  avgRenderMs: number;
+  maxRenderMs: number;
+  queueLength: number;
+  cacheEntries: number;
+  cacheBytes: number;
+}
+
+interface RenderTask {
+  id: string;
+  code: string;
+  themeVars: any;
+  cacheKey: string;
+  priority: number;
+  seq: number;
+  waiters: { resolve: (svg: string) => void; reject: (err: unknown) => void }[];
+  cancelled?: boolean;
+}
+
+const DEFAULT_CACHE_BUDGET = 24 * 1024 * 1024; // 约 24MB（按 UTF-16 字符估算）
+const LOWEST_PRIORITY = Number.MAX_SAFE_INTEGER;
+const PARSE_CACHE_LIMIT = 500;
+const IDLE_TIMEOUT_MS = 200;           // 空闲回调最长等待时间
+const MAX_INTERACTION_DEFER_MS = 2000; // 拖拽/平移期间最多推迟渲染的时间
+
+// cyrb53：快速的 53 位字符串哈希，避免用整段代码作为缓存键
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
 
 /**
  * DiagramRenderManager
- * 一个高性能图表渲染调度器插件
+ * 一个高性能图表渲染调度器插件：
+ * - 按优先级调度，同一卡片的新请求会取代尚未开始的旧请求
+ * - LRU 缓存，超出内存预算时淘汰最久未使用的 SVG
+ * - 记录渲染耗时与缓存命中等指标
+ * - 语法解析在 Worker 中进行；Mermaid 布局依赖 DOM 测量只能留在主线程，
+ *   因此渲染推迟到空闲时段，并在拖拽/平移期间暂停，避免交互掉帧
  */
 class DiagramRenderManager {
   private static instance: DiagramRenderManager;
   private cache: Map<string, string> = new Map();
-  private isInitialized = false;
-  private renderQueue: Array<() => Promise<void>> = [];
+  private cacheBytes = 0;
+  private cacheBudget = DEFAULT_CACHE_BUDGET;
+  private initializedTheme: string | null = null;
+  private queue: RenderTask[] = [];
+  private activeTask: RenderTask | null = null;
+  private parseCache: Map<string, ParseResult> = new Map();
+  private interacting = false;
+  private seq = 0;
   private isProcessing = false;
+  private listeners = new Set<(metrics: RenderMetrics) => void>();
+  private stats = { renders: 0, cacheHits: 0, cacheMisses: 0, cancelled: 0, failures: 0, evictions: 0, workerParses: 0, mainThreadParses: 0, totalMs: 0, lastMs: 0, maxMs: 0 };
 
   private constructor() {}
 
@@ -21,9 +108,13 @@ class DiagramRenderManager {
     return DiagramRenderManager.instance;
   }
 
+  /**
+   * 主题变量随卡片变化，渲染前按需重新初始化（渲染任务串行执行，不会互相干扰）
+   */
   private async initialize(themeVars?: any) {
-    if (this.isInitialized) return;
-    
+    const themeKey = JSON.stringify(themeVars || null);
+    if (this.initializedTheme === themeKey) return;
+
     mermaid.initialize({
       startOnLoad: false,
       theme: 'base',
@@ -35,51 +126,233 @@ class DiagramRenderManager {
         lineColor: '#818cf8',
       }
     });
-    this.isInitialized = true;
+    this.initializedTheme = themeKey;
+  }
+
+  private cacheKeyOf(code: string, themeVars: any) {
+    const source = `${code}\u0000${JSON.stringify(themeVars || null)}`;
+    return `${hashString(source)}:${source.length}`;
+  }
+
+  private readCache(key: string): string | undefined {
+    const svg = this.cache.get(key);
+    if (svg === undefined) return undefined;
+    // 重新插入以标记为最近使用
+    this.cache.delete(key);
+    this.cache.set(key, svg);
+    return svg;
+  }
+
+  private writeCache(key: string, svg: string) {
+    if (this.cache.has(key)) this.cacheBytes -= this.cache.get(key)!.length * 2;
+    this.cache.delete(key);
+    this.cache.set(key, svg);
+    this.cacheBytes += svg.length * 2;
+    this.evict(key);
+  }
+
+  // Map 按插入顺序迭代，头部即最久未使用的条目；keep 为刚写入的条目，不会被淘汰
+  private evict(keep?: string) {
+    for (const [key, svg] of this.cache) {
+      if (this.cacheBytes <= this.cacheBudget || key === keep) break;
+      this.cache.delete(key);
+      this.cacheBytes -= svg.length * 2;
+      this.stats.evictions++;
+    }
+  }
+
+  /**
+   * 语法校验：优先在 Worker 中解析，不可用时回退到主线程
+   */
+  public async validate(code: string): Promise<ParseResult> {
+    const key = hashString(code) + ':' + code.length;
+    const cached = this.parseCache.get(key);
+    if (cached) return cached;
+
+    let result = await parseInWorker(code);
+    if (result) {
+      this.stats.workerParses++;
+    } else {
+      this.stats.mainThreadParses++;
+      await this.initialize();
+      try {
+        await mermaid.parse(code);
+        result = { ok: true };
+      } catch (err: any) {
+        result = { ok: false, message: String(err?.message ?? err), line: extractErrorLine(err) };
+      }
+    }
+
+    this.parseCache.set(key, result);
+    if (this.parseCache.size > PARSE_CACHE_LIMIT) this.parseCache.delete(this.parseCache.keys().next().value!);
+    return result;
+  }
+
+  /**
+   * 画布拖拽/平移期间暂停主线程渲染
+   */
+  public setInteracting(active: boolean) {
+    this.interacting = active;
+  }
+
+  private async waitForIdle() {
+    const deadline = Date.now() + MAX_INTERACTION_DEFER_MS;
+    while (this.interacting && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    await new Promise<void>(resolve => {
+      if (typeof requestIdleCallback === 'function') requestIdleCallback(() => resolve(), { timeout: IDLE_TIMEOUT_MS });
+      else setTimeout(resolve, 0);
+    });
   }
 
   /**
-   * 智能渲染方法：带缓存与并发控制
+   * 智能渲染方法：带缓存、优先级与同卡片去重
    */
-  public async render(id: string, code: string, themeVars: any): Promise<string> {
-    const cacheKey = `${code}-${JSON.stringify(themeVars)}`;
-    
+  public async render(id: string, code: string, themeVars: any, options: RenderOptions = {}): Promise<string> {
+    const cacheKey = this.cacheKeyOf(code, themeVars);
+    const priority = options.priority ?? LOWEST_PRIORITY;
+
     // 1. 命中缓存直接返回
-    if (this.cache.has(cacheKey)) {
-      return this.cache.get(cacheKey)!;
+    const cached = this.readCache(cacheKey);
+    if (cached !== undefined) {
+      this.stats.cacheHits++;
+      this.notify();
+      return cached;
     }
 
-    // 2. 加入异步调度队列
+    // 2. 同一卡片已有排队任务：内容相同则合并等待，否则取代旧任务
     return new Promise((resolve, reject) => {
-      this.renderQueue.push(async () => {
-        try {
-          await this.initialize(themeVars);
-          const chartId = `svg-${id.replace(/[^a-zA-Z0-9]/g, '')}-${Math.random().toString(36).slice(2, 7)}`;
-          const { svg } = await mermaid.render(chartId, code);
-          this.cache.set(cacheKey, svg);
-          resolve(svg);
-        } catch (err) {
-          reject(err);
-        }
-      });
+      const pending = this.queue.find(t => t.id === id);
+      if (pending && pending.cacheKey === cacheKey) {
+        pending.waiters.push({ resolve, reject });
+        pending.priority = Math.min(pending.priority, priority);
+        return;
+      }
+      if (pending) this.dropTask(pending);
+      // 正在解析/等待空闲的旧任务同样作废
+      if (this.activeTask?.id === id && this.activeTask.cacheKey !== cacheKey) this.activeTask.cancelled = true;
+      this.queue.push({ id, code, themeVars, cacheKey, priority, seq: this.seq++, waiters: [{ resolve, reject }] });
+      this.notify();
       this.processQueue();
     });
   }
 
+  /**
+   * 调整排队中任务的优先级（例如画布平移后卡片离视口中心的距离变化）
+   */
+  public setPriority(id: string, priority: number) {
+    const task = this.queue.find(t => t.id === id);
+    if (task) task.priority = priority;
+  }
+
+  /**
+   * 取消尚未开始的渲染（卡片卸载或滚出视口时调用）
+   */
+  public cancel(id: string) {
+    if (this.activeTask?.id === id) this.activeTask.cancelled = true;
+    const task = this.queue.find(t => t.id === id);
+    if (task) {
+      this.dropTask(task);
+      this.notify();
+    }
+  }
+
+  private dropTask(task: RenderTask) {
+    this.queue = this.queue.filter(t => t !== task);
+    this.stats.cancelled++;
+    task.waiters.forEach(w => w.reject(new RenderCancelledError(task.id)));
+  }
+
+  private nextTask(): RenderTask | undefined {
+    if (this.queue.length === 0) return undefined;
+    const next = this.queue.reduce((best, t) =>
+      t.priority < best.priority || (t.priority === best.priority && t.seq < best.seq) ? t : best
+    );
+    this.queue = this.queue.filter(t => t !== next);
+    return next;
+  }
+
   private async processQueue() {
-    if (this.isProcessing || this.renderQueue.length === 0) return;
+    if (this.isProcessing) return;
     this.isProcessing = true;
-    
-    while (this.renderQueue.length > 0) {
-      const task = this.renderQueue.shift();
-      if (task) await task();
+
+    let task: RenderTask | undefined;
+    while ((task = this.nextTask())) {
+      // 排队期间其他卡片可能已渲染出相同内容
+      const cached = this.readCache(task.cacheKey);
+      if (cached !== undefined) {
+        this.stats.cacheHits++;
+        task.waiters.forEach(w => w.resolve(cached));
+        continue;
+      }
+      this.stats.cacheMisses++;
+      this.activeTask = task;
+      try {
+        const parsed = await this.validate(task.code);
+        if (parsed.ok === false) throw new MermaidSyntaxError(parsed.message, parsed.line);
+        await this.waitForIdle();
+        if (task.cancelled) {
+          this.stats.cancelled++;
+          throw new RenderCancelledError(task.id);
+        }
+        const startedAt = performance.now();
+        await this.initialize(task.themeVars);
+        const chartId = `svg-${task.id.replace(/[^a-zA-Z0-9]/g, '')}-${Math.random().toString(36).slice(2, 7)}`;
+        const { svg } = await mermaid.render(chartId, task.code);
+        const elapsed = performance.now() - startedAt;
+        this.stats.renders++;
+        this.stats.totalMs += elapsed;
+        this.stats.lastMs = elapsed;
+        this.stats.maxMs = Math.max(this.stats.maxMs, elapsed);
+        this.writeCache(task.cacheKey, svg);
+        task.waiters.forEach(w => w.resolve(svg));
+      } catch (err) {
+        if (!(err instanceof RenderCancelledError)) this.stats.failures++;
+        task.waiters.forEach(w => w.reject(err));
+      } finally {
+        this.activeTask = null;
+      }
+      this.notify();
     }
-    
+
     this.isProcessing = false;
   }
 
+  public getMetrics(): RenderMetrics {
+    const { renders, cacheHits, cacheMisses, cancelled, failures, evictions, workerParses, mainThreadParses, totalMs, lastMs, maxMs } = this.stats;
+    return {
+      renders, cacheHits, cacheMisses, cancelled, failures, evictions, workerParses, mainThreadParses,
+      lastRenderMs: lastMs,
+      avgRenderMs: renders > 0 ? totalMs / renders : 0,
+      maxRenderMs: maxMs,
+      queueLength: this.queue.length,
+      cacheEntries: this.cache.size,
+      cacheBytes: this.cacheBytes
+    };
+  }
+
+  public subscribe(listener: (metrics: RenderMetrics) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private notify() {
+    if (this.listeners.size === 0) return;
+    const metrics = this.getMetrics();
+    this.listeners.forEach(l => l(metrics));
+  }
+
+  public setCacheBudget(bytes: number) {
+    this.cacheBudget = bytes;
+    this.evict();
+    this.notify();
+  }
+
   public clearCache() {
     this.cache.clear();
+    this.cacheBytes = 0;
+    this.notify();
   }
 }
 
@@ -0,0 +1,102 @@
+import { CanvasElement, ChatMessage, Connection, DiagramType } from "../types";
+import { scoreTitle } from "./titleMatcher";
+import { extractNodeLabels } from "./mermaidNodes";
+
+/**
+ * 全局搜索：卡片标题、图表节点、笔记正文、连线标签与聊天记录
+ */
+export type SearchHitKind = 'card' | 'node' | 'note' | 'connection' | 'message';
+
+export interface SearchHit {
+  key: string;
+  kind: SearchHitKind;
+  elementId?: string;  // 选中后飞跃到的卡片
+  nodeLabel?: string;  // 节点命中时用于在 SVG 中高亮
+  messageId?: string;
+  title: string;
+  snippet?: string;
+  score: number;
+}
+
+export interface SearchGroup {
+  kind: SearchHitKind;
+  hits: SearchHit[];
+}
+
+export const SEARCH_GROUP_ORDER: SearchHitKind[] = ['card', 'node', 'note', 'connection', 'message'];
+const MAX_HITS_PER_GROUP = 6;
+const SNIPPET_RADIUS = 28;
+
+/**
+ * 长文本只做包含匹配（子序列模糊匹配在长文本上几乎总能命中），越靠前得分越高
+ */
+const scoreText = (query: string, text: string): { score: number; index: number } => {
+  const index = text.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) return { score: 0, index };
+  return { score: Math.max(20, 50 - Math.floor(index / 40)), index };
+};
+
+const snippetAround = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+};
+
+export const searchWorkspace = (
+  query: string,
+  doc: { elements: CanvasElement[]; connections: Connection[]; messages: ChatMessage[] }
+): SearchGroup[] => {
+  const q = query.trim();
+  if (!q) return [];
+  const hits: SearchHit[] = [];
+  const byId = new Map<string, CanvasElement>(doc.elements.map(el => [el.id, el]));
+
+  doc.elements.forEach(el => {
+    const titleScore = scoreTitle(q, el.title);
+    if (titleScore > 0) hits.push({ key: `card:${el.id}`, kind: 'card', elementId: el.id, title: el.title, snippet: el.type, score: titleScore });
+
+    if (el.type === DiagramType.NOTE) {
+      const content = el.content || '';
+      const { score, index } = scoreText(q, content);
+      if (score > 0) hits.push({ key: `note:${el.id}`, kind: 'note', elementId: el.id, title: el.title, snippet: snippetAround(content, index, q.length), score });
+      return;
+    }
+
+    const labels = el.deconstructedElements.length > 0 ? el.deconstructedElements : extractNodeLabels(el.mermaidCode);
+    labels.forEach(label => {
+      const score = scoreTitle(q, label);
+      if (score > 0) hits.push({ key: `node:${el.id}:${label}`, kind: 'node', elementId: el.id, nodeLabel: label, title: label, snippet: el.title, score });
+    });
+  });
+
+  doc.connections.forEach(conn => {
+    if (!conn.label) return;
+    const score = scoreTitle(q, conn.label);
+    if (score === 0) return;
+    const from = byId.get(conn.fromId);
+    const to = byId.get(conn.toId);
+    hits.push({
+      key: `connection:${conn.id}`, kind: 'connection', elementId: conn.fromId, title: conn.label,
+      snippet: `${from?.title ?? '?'} → ${to?.title ?? '?'}`, score
+    });
+  });
+
+  doc.messages.forEach(msg => {
+    const { score, index } = scoreText(q, msg.content);
+    if (score === 0) return;
+    // 消息中提及的第一个模块作为飞跃目标
+    const mentioned = doc.elements.find(el => msg.content.includes(`【${el.title}】`));
+    hits.push({
+      key: `message:${msg.id}`, kind: 'message', messageId: msg.id, elementId: mentioned?.id,
+      title: msg.role === 'user' ? '我' : (msg.agent || '助手'), snippet: snippetAround(msg.content, index, q.length), score
+    });
+  });
+
+  return SEARCH_GROUP_ORDER
+    .map(kind => ({
+      kind,
+      hits: hits.filter(h => h.kind === kind).sort((a, b) => b.score - a.score).slice(0, MAX_HITS_PER_GROUP)
+    }))
+    .filter(g => g.hits.length > 0)
+    .sort((a, b) => b.hits[0].score - a.hits[0].score); // 分组按各自最佳命中排序，同分保持默认顺序
+};
@@ -0,0 +1,99 @@
+import { Rect } from "./geometry";
+
+/**
+ * 拖拽吸附：优先对齐其他卡片的边缘与中线，其次吸附到网格
+ */
+export const GRID_SIZE = 60;       // 与画布点阵背景的间距一致（世界坐标）
+export const SNAP_THRESHOLD = 8;   // 吸附触发距离（屏幕像素，调用方按缩放换算）
+
+export interface SnapGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number; // 竖线为 x，横线为 y
+  start: number;
+  end: number;
+}
+
+export interface SnapResult {
+  x: number;
+  y: number;
+  guides: SnapGuide[];
+}
+
+export interface SnapOptions {
+  threshold: number;  // 世界坐标下的吸附距离
+  gridSize?: number;  // 不传则不吸附网格
+}
+
+export const snapToGrid = (value: number, gridSize: number) => Math.round(value / gridSize) * gridSize;
+
+type Axis = 'x' | 'y';
+
+// 卡片在某一轴上的三条参考线：起边、中线、终边
+const anchorsOf = (r: Rect, axis: Axis): number[] => axis === 'x'
+  ? [r.x, r.x + r.width / 2, r.x + r.width]
+  : [r.y, r.y + r.height / 2, r.y + r.height];
+
+interface AxisSnap {
+  delta: number;
+  position: number;
+  matches: Rect[];
+}
+
+/**
+ * 在单个轴上寻找距离最近的对齐线；同一距离命中的多张卡片都会参与辅助线绘制
+ */
+const snapAxis = (moving: Rect, others: Rect[], axis: Axis, threshold: number): AxisSnap | null => {
+  let best: AxisSnap | null = null;
+  const movingAnchors = anchorsOf(moving, axis);
+  others.forEach(other => {
+    anchorsOf(other, axis).forEach(target => {
+      movingAnchors.forEach(anchor => {
+        const delta = target - anchor;
+        if (Math.abs(delta) > threshold) return;
+        if (!best || Math.abs(delta) < Math.abs(best.delta) - 0.01) {
+          best = { delta, position: target, matches: [other] };
+        } else if (Math.abs(delta - best.delta) < 0.01 && !best.matches.includes(other)) {
+          best.matches.push(other);
+        }
+      });
+    });
+  });
+  return best;
+};
+
+const guideFor = (axis: Axis, snap: AxisSnap, moving: Rect): SnapGuide => {
+  const rects = [moving, ...snap.matches];
+  return axis === 'x'
+    ? {
+        orientation: 'vertical', position: snap.position,
+        start: Math.min(...rects.map(r => r.y)), end: Math.max(...rects.map(r => r.y + r.height))
+      }
+    : {
+        orientation: 'horizontal', position: snap.position,
+        start: Math.min(...rects.map(r => r.x)), end: Math.max(...rects.map(r => r.x + r.width))
+      };
+};
+
+/**
+ * 计算拖拽中的矩形（单卡或多选整体包围盒）吸附后的左上角坐标与需要显示的辅助线
+ */
+export const computeSnap = (moving: Rect, others: Rect[], options: SnapOptions): SnapResult => {
+  const result: SnapResult = { x: moving.x, y: moving.y, guides: [] };
+
+  (['x', 'y'] as Axis[]).forEach(axis => {
+    const snap = snapAxis(moving, others, axis, options.threshold);
+    if (snap) {
+      result[axis] += snap.delta;
+      return;
+    }
+    if (options.gridSize) result[axis] = snapToGrid(moving[axis], options.gridSize);
+  });
+
+  // 辅助线基于最终位置绘制，保证两轴同时吸附时线段端点准确
+  const snapped = { ...moving, x: result.x, y: result.y };
+  (['x', 'y'] as Axis[]).forEach(axis => {
+    const snap = snapAxis(snapped, others, axis, 0.5);
+    if (snap) result.guides.push(guideFor(axis, snap, snapped));
+  });
+  return result;
+};
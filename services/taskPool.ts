@@ -0,0 +1,19 @@
+/**
+ * 有界并发执行：按顺序取出任务，最多同时运行 limit 个。
+ * signal 中止后不再启动新任务，已启动的任务需自行响应 signal；worker 应自行处理错误，不向外抛出
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const runner = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runner));
+};
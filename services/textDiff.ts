@@ -0,0 +1,65 @@
+/**
+ * 行级文本差异：基于最长公共子序列，用于对比 AI 修改前后的 Mermaid 代码
+ */
+export type DiffLineType = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine?: number; // 在旧文本中的行号（1 起），新增行没有
+  newLine?: number; // 在新文本中的行号（1 起），删除行没有
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // 去掉公共前后缀，缩小 LCS 表的规模
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length, endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length, m = midB.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  for (let k = 0; k < start; k++) result.push({ type: 'equal', text: a[k], oldLine: k + 1, newLine: k + 1 });
+
+  let i = 0, j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      result.push({ type: 'equal', text: midA[i], oldLine: start + i + 1, newLine: start + j + 1 });
+      i++; j++;
+    } else if (i < n && (j >= m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      // 同一位置既有删除又有新增时先列出删除行
+      result.push({ type: 'remove', text: midA[i], oldLine: start + i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'add', text: midB[j], newLine: start + j + 1 });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({ type: 'equal', text: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 });
+  }
+  return result;
+};
+
+export const diffStats = (lines: DiffLine[]): DiffStats => ({
+  added: lines.filter(l => l.type === 'add').length,
+  removed: lines.filter(l => l.type === 'remove').length
+});
@@ -0,0 +1,125 @@
+import { CanvasElement } from "../types";
+
+export type TitleMatch =
+  | { status: 'found'; element: CanvasElement }
+  | { status: 'ambiguous'; candidates: CanvasElement[] }
+  | { status: 'missing'; query: string };
+
+export type LinkTargets =
+  | { ok: true; from: CanvasElement; to: CanvasElement }
+  | { ok: false; error: string };
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\-_·【】\[\]"'“”@]/g, '');
+
+/**
+ * 标题匹配打分：完全一致 > 前缀 > 包含 > 子序列（按跨度惩罚）
+ */
+export const scoreTitle = (query: string, title: string): number => {
+  const q = normalize(query);
+  const t = normalize(title);
+  if (!q || !t) return 0;
+  if (q === t) return 100;
+  if (t.startsWith(q)) return 80;
+  if (t.includes(q)) return 60;
+
+  // 子序列模糊匹配，例如 “支网” 命中 “支付网关”
+  let ti = 0;
+  let first = -1;
+  for (const ch of q) {
+    ti = t.indexOf(ch, ti);
+    if (ti === -1) return 0;
+    if (first === -1) first = ti;
+    ti++;
+  }
+  const span = ti - first;
+  return Math.max(1, 40 - (span - q.length) * 2);
+};
+
+/**
+ * 在画布卡片中解析单个标题。同分的多个候选视为歧义，而不是随意挑选其一。
+ */
+export const resolveTitle = (query: string, elements: CanvasElement[]): TitleMatch => {
+  const scored = elements
+    .map(element => ({ element, score: scoreTitle(query, element.title) }))
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) return { status: 'missing', query };
+  const top = scored.filter(s => s.score === scored[0].score);
+  if (top.length === 1) return { status: 'found', element: top[0].element };
+  return { status: 'ambiguous', candidates: top.map(s => s.element) };
+};
+
+const describeFailure = (match: TitleMatch, query: string): string => {
+  if (match.status === 'ambiguous') {
+    const names = match.candidates.slice(0, 5).map(c => `【${c.title}】`).join('、');
+    return `“${query}” 匹配到多个模块：${names}，请使用更完整的标题或 @提及。`;
+  }
+  return `未找到与 “${query}” 匹配的模块。`;
+};
+
+/**
+ * 显式分隔的参数：引号、【】、[] 包裹的标题，或 @提及（标题中允许包含空格）
+ */
+const extractExplicitTerms = (raw: string): string[] | null => {
+  const quoted = Array.from(raw.matchAll(/"([^"]+)"|“([^”]+)”|【([^】]+)】|\[([^\]]+)\]/g))
+    .map(m => (m[1] ?? m[2] ?? m[3] ?? m[4]).trim());
+  if (quoted.length >= 2) return quoted;
+
+  if (/(^|\s)@/.test(raw)) {
+    return raw.split(/(?:^|\s)@/).map(s => s.trim()).filter(Boolean);
+  }
+  return null;
+};
+
+/**
+ * 解析 `/link` 的参数并定位起止卡片。
+ * 未显式分隔时，会尝试所有空格切分位置，只有唯一一种切分能同时命中两个不同卡片时才采用。
+ */
+export const resolveLinkTargets = (rawArgs: string, elements: CanvasElement[]): LinkTargets => {
+  const raw = rawArgs.trim();
+  const usage = '用法：/link [标题1] [标题2]，标题含空格时可使用 @提及 或引号。';
+  if (!raw) return { ok: false, error: usage };
+
+  const explicit = extractExplicitTerms(raw);
+  if (explicit) {
+    if (explicit.length !== 2) return { ok: false, error: `需要恰好两个模块，当前识别到 ${explicit.length} 个。${usage}` };
+    const [fromMatch, toMatch] = explicit.map(term => resolveTitle(term, elements));
+    if (fromMatch.status !== 'found') return { ok: false, error: describeFailure(fromMatch, explicit[0]) };
+    if (toMatch.status !== 'found') return { ok: false, error: describeFailure(toMatch, explicit[1]) };
+    if (fromMatch.element.id === toMatch.element.id) return { ok: false, error: '不能将模块连接到自身。' };
+    return { ok: true, from: fromMatch.element, to: toMatch.element };
+  }
+
+  const tokens = raw.split(/\s+/);
+  if (tokens.length < 2) return { ok: false, error: usage };
+
+  const attempts = tokens.slice(1).map((_, i) => {
+    const left = tokens.slice(0, i + 1).join(' ');
+    const right = tokens.slice(i + 1).join(' ');
+    return { left, right, fromMatch: resolveTitle(left, elements), toMatch: resolveTitle(right, elements) };
+  });
+
+  const valid = attempts.filter(a =>
+    a.fromMatch.status === 'found' && a.toMatch.status === 'found' && a.fromMatch.element.id !== a.toMatch.element.id
+  );
+  const distinct = new Set(valid.map(a =>
+    a.fromMatch.status === 'found' && a.toMatch.status === 'found' ? `${a.fromMatch.element.id}>${a.toMatch.element.id}` : ''
+  ));
+
+  if (distinct.size === 1) {
+    const { fromMatch, toMatch } = valid[0];
+    if (fromMatch.status === 'found' && toMatch.status === 'found') {
+      return { ok: true, from: fromMatch.element, to: toMatch.element };
+    }
+  }
+  if (distinct.size > 1) {
+    return { ok: false, error: `无法确定标题的分隔位置，请使用 @提及 或引号明确两个模块。` };
+  }
+
+  // 没有可行的切分：报告最直观的切分（第一个词 / 其余部分）中出错的一侧
+  const fallback = attempts[0];
+  if (fallback.fromMatch.status !== 'found') return { ok: false, error: describeFailure(fallback.fromMatch, fallback.left) };
+  if (fallback.toMatch.status !== 'found') return { ok: false, error: describeFailure(fallback.toMatch, fallback.right) };
+  return { ok: false, error: '不能将模块连接到自身。' };
+};
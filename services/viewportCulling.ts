@@ -0,0 +1,41 @@
+import { CanvasElement } from "../types";
+import { CardSize, Point, Rect, getCardRect, inflateRect, rectCenter, rectsIntersect } from "./geometry";
+
+/**
+ * 视口虚拟化：只有与可见区域（含外扩边距）相交的卡片才挂载 Mermaid SVG
+ */
+export const CULL_MARGIN = 400;           // 屏幕像素，提前挂载即将滚入视口的卡片
+export const LOW_DETAIL_SCALE = 0.3;      // 低于该缩放比例时卡片只显示标题
+export const OFFSCREEN_PRIORITY = 1e7;    // 视口外卡片的渲染优先级基数，保证排在所有可见卡片之后
+
+/**
+ * 由画布平移/缩放换算出当前可见的世界坐标矩形
+ */
+export const getVisibleWorldRect = (
+  viewport: { width: number; height: number }, offset: Point, scale: number, margin = CULL_MARGIN
+): Rect => inflateRect(
+  { x: -offset.x / scale, y: -offset.y / scale, width: viewport.width / scale, height: viewport.height / scale },
+  margin / scale
+);
+
+export const getVisibleIds = (
+  elements: CanvasElement[], sizes: Record<string, CardSize>, visibleRect: Rect
+): Set<string> => new Set(
+  elements.filter(el => rectsIntersect(getCardRect(el, sizes), visibleRect)).map(el => el.id)
+);
+
+/**
+ * 渲染优先级：可见卡片按卡片中心到视口中心的距离排序，视口外的卡片（如导出时）整体排在最后
+ */
+export const getRenderPriorities = (
+  elements: CanvasElement[], sizes: Record<string, CardSize>, visibleRect: Rect, visibleIds: Set<string>
+): Record<string, number> => {
+  const center = rectCenter(visibleRect);
+  const priorities: Record<string, number> = {};
+  elements.forEach(el => {
+    const c = rectCenter(getCardRect(el, sizes));
+    const distance = Math.round(Math.hypot(c.x - center.x, c.y - center.y));
+    priorities[el.id] = visibleIds.has(el.id) ? distance : OFFSCREEN_PRIORITY + distance;
+  });
+  return priorities;
+};
@@ -0,0 +1,166 @@
+import { ChatMessage, ThinkingStep } from "../types";
+import { ProjectArchive } from "./projectArchive";
+import { LLMSettings } from "./llmProvider";
+
+/**
+ * 本地工作区存储：基于 IndexedDB 保存多个工程及崩溃恢复快照
+ */
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  archive: ProjectArchive;
+  messages: ChatMessage[];
+  thinkingSteps: ThinkingStep[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  elementCount: number;
+}
+
+/**
+ * 会话快照：编辑过程中高频写入，正式保存后清除。
+ * 启动时若快照比对应工程更新，说明上次会话未能正常保存。
+ */
+export interface SessionSnapshot {
+  projectId: string;
+  updatedAt: number;
+  archive: ProjectArchive;
+  messages: ChatMessage[];
+  thinkingSteps: ThinkingStep[];
+}
+
+const DB_NAME = 'arch-pro-engine';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const META_STORE = 'meta';
+const ACTIVE_PROJECT_KEY = 'activeProjectId';
+const SESSION_KEY = 'session';
+const MODEL_SETTINGS_KEY = 'modelSettings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('当前环境不支持 IndexedDB'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 打开失败时允许下次重试
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toSummary = (p: ProjectRecord): ProjectSummary => ({
+  id: p.id,
+  name: p.name,
+  createdAt: p.createdAt,
+  updatedAt: p.updatedAt,
+  elementCount: p.archive.elements.length
+});
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await withStore<ProjectRecord[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+  return records.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string): Promise<ProjectRecord | undefined> =>
+  withStore<ProjectRecord | undefined>(PROJECT_STORE, 'readonly', store => store.get(id));
+
+export const saveProject = async (record: ProjectRecord): Promise<void> => {
+  await withStore(PROJECT_STORE, 'readwrite', store => store.put(record));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore(PROJECT_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const createProject = async (name: string, archive: ProjectArchive): Promise<ProjectRecord> => {
+  const now = Date.now();
+  const record: ProjectRecord = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, archive, messages: [], thinkingSteps: [] };
+  await saveProject(record);
+  return record;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const record = await getProject(id);
+  if (!record) throw new Error(`工程不存在：${id}`);
+  await saveProject({ ...record, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectRecord> => {
+  const record = await getProject(id);
+  if (!record) throw new Error(`工程不存在：${id}`);
+  const now = Date.now();
+  const copy: ProjectRecord = { ...structuredClone(record), id: crypto.randomUUID(), name: `${record.name} 副本`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+};
+
+export const getActiveProjectId = (): Promise<string | undefined> =>
+  withStore<string | undefined>(META_STORE, 'readonly', store => store.get(ACTIVE_PROJECT_KEY));
+
+export const setActiveProjectId = async (id: string): Promise<void> => {
+  await withStore(META_STORE, 'readwrite', store => store.put(id, ACTIVE_PROJECT_KEY));
+};
+
+export const readSessionSnapshot = (): Promise<SessionSnapshot | undefined> =>
+  withStore<SessionSnapshot | undefined>(META_STORE, 'readonly', store => store.get(SESSION_KEY));
+
+export const writeSessionSnapshot = async (snapshot: SessionSnapshot): Promise<void> => {
+  await withStore(META_STORE, 'readwrite', store => store.put(snapshot, SESSION_KEY));
+};
+
+// 模型设置与工程无关，保存在 meta 中；读取结果需经 normalizeSettings 校验
+export const readModelSettings = (): Promise<unknown> =>
+  withStore<unknown>(META_STORE, 'readonly', store => store.get(MODEL_SETTINGS_KEY));
+
+export const writeModelSettings = async (settings: LLMSettings): Promise<void> => {
+  await withStore(META_STORE, 'readwrite', store => store.put(settings, MODEL_SETTINGS_KEY));
+};
+
+/**
+ * 清除会话快照。传入 savedAt 时，仅当快照不晚于该时间（即已被正式保存覆盖）才清除。
+ */
+export const clearSessionSnapshot = async (savedAt?: number): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(META_STORE, 'readwrite');
+    const store = tx.objectStore(META_STORE);
+    const request = store.get(SESSION_KEY);
+    request.onsuccess = () => {
+      const snapshot = request.result as SessionSnapshot | undefined;
+      if (snapshot && (savedAt === undefined || snapshot.updatedAt <= savedAt)) store.delete(SESSION_KEY);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
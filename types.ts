@@ -25,6 +25,7 @@ export enum DiagramType {
 export interface PlanNode extends CategoryNode {
   selected: boolean;
   id: string;
+  parentId?: string; // 规划树中的父节点；方案按先序排列，父节点总在子节点之前
 }
 
 export interface ChatMessage {
@@ -35,6 +36,9 @@ export interface ChatMessage {
   timestamp: number;
   type?: 'text' | 'plan';
   plan?: PlanNode[];
+  sourceInput?: string;  // 规划消息对应的原始输入，确认后作为各模块的生成上下文
+  hierarchy?: string[];  // 规划结果中的层级体系（DeconstructionPlan.hierarchy）
+  customHierarchy?: string; // 用户指定的层级规则，重新规划时沿用
 }
 
 export interface ThinkingStep {
@@ -72,6 +76,22 @@ export interface CanvasElement {
   localChatInput?: string;
   isLocalUpdating?: boolean;
   content?: string;
+  pinned?: boolean; // 用户手动摆放过的卡片，自动布局与新卡片放置时保持不动
+}
+
+export type GenerationStatus = 'queued' | 'streaming' | 'validating' | 'failed' | 'cancelled';
+
+// 卡片的 AI 生成进度（运行时状态，不写入文档与历史）；生成成功后即移除
+export interface CardGeneration {
+  status: GenerationStatus;
+  partialCode: string;
+  attempt: number;
+  error?: string;
+}
+
+export interface DiagramError {
+  message: string;
+  line?: number; // 出错行号，从 1 开始
 }
 
 export interface Connection {
@@ -87,5 +107,31 @@ export const THEMES = [
     name: '赛博极光',
     primary: '#6366f1',
     mermaidVars: { primaryColor: '#6366f1', lineColor: '#818cf8' }
+  },
+  {
+    id: 'emerald-matrix',
+    name: '翡翠矩阵',
+    primary: '#10b981',
+    mermaidVars: { primaryColor: '#10b981', lineColor: '#34d399' }
+  },
+  {
+    id: 'amber-forge',
+    name: '琥珀熔炉',
+    primary: '#f59e0b',
+    mermaidVars: { primaryColor: '#f59e0b', lineColor: '#fbbf24' }
+  },
+  {
+    id: 'rose-signal',
+    name: '玫瑰信号',
+    primary: '#f43f5e',
+    mermaidVars: { primaryColor: '#f43f5e', lineColor: '#fb7185' }
+  },
+  {
+    id: 'slate-blueprint',
+    name: '石墨蓝图',
+    primary: '#64748b',
+    mermaidVars: { primaryColor: '#475569', lineColor: '#94a3b8' }
   }
 ];
+
+export const getTheme = (themeId?: string) => THEMES.find(t => t.id === themeId) || THEMES[0];